@@ -0,0 +1,142 @@
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import os from 'node:os';
+import type { ComposerAuth } from './types';
+
+const AUTH_SECTIONS = [
+  'http-basic',
+  'bearer',
+  'github-oauth',
+  'gitlab-token',
+  'gitlab-oauth',
+] as const;
+
+/**
+ * Resolves the Composer home directory the same way Composer does.
+ * @see https://getcomposer.org/doc/03-cli.md#composer-home
+ */
+export function getComposerHome(): string {
+  const override = process.env.COMPOSER_HOME?.trim();
+  if (override) return override;
+
+  const home = os.homedir();
+
+  if (os.platform() === 'win32') {
+    return join(process.env.APPDATA || join(home, 'AppData', 'Roaming'), 'Composer');
+  }
+
+  const candidates: string[] = [];
+  const useXdg = Object.keys(process.env).some((key) => key.startsWith('XDG_'));
+  if (useXdg || existsSync('/etc/xdg')) {
+    candidates.push(join(process.env.XDG_CONFIG_HOME || join(home, '.config'), 'composer'));
+  }
+  candidates.push(join(home, '.composer'));
+
+  return candidates.find((dir) => existsSync(dir)) ?? candidates[0]!;
+}
+
+function parseAuth(raw: string | undefined): ComposerAuth {
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as ComposerAuth) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function readAuthFile(path: string): Promise<ComposerAuth> {
+  if (!existsSync(path)) return {};
+
+  try {
+    return parseAuth(await readFile(path, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+function mergeAuth(...sources: ComposerAuth[]): ComposerAuth {
+  const merged: Record<string, Record<string, unknown>> = {};
+
+  for (const source of sources) {
+    for (const section of AUTH_SECTIONS) {
+      const entries = source[section];
+      if (!entries || typeof entries !== 'object') continue;
+      merged[section] = { ...merged[section], ...entries };
+    }
+  }
+
+  return merged as ComposerAuth;
+}
+
+/**
+ * Loads credentials from the global `$COMPOSER_HOME/auth.json`, the project
+ * `auth.json` and the `COMPOSER_AUTH` environment variable. Later sources
+ * override earlier ones per host.
+ */
+export async function loadComposerAuth(projectDir: string): Promise<ComposerAuth> {
+  const globalAuth = await readAuthFile(join(getComposerHome(), 'auth.json'));
+  const projectAuth = await readAuthFile(join(projectDir, 'auth.json'));
+  const envAuth = parseAuth(process.env.COMPOSER_AUTH);
+
+  return mergeAuth(globalAuth, projectAuth, envAuth);
+}
+
+/**
+ * Builds a Basic authorization header value.
+ */
+export function basicAuthorization(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
+
+/**
+ * Returns the request headers needed to authenticate against the host of `url`.
+ * Hosts are matched with and without port, like Composer does.
+ */
+export function getAuthHeaders(url: string, auth: ComposerAuth): Record<string, string> {
+  let host: string;
+  let hostname: string;
+
+  try {
+    ({ host, hostname } = new URL(url));
+  } catch {
+    return {};
+  }
+
+  const lookup = <T>(section?: Record<string, T>): T | undefined =>
+    section?.[host] ?? section?.[hostname];
+
+  const basic = lookup(auth['http-basic']);
+  if (basic?.username !== undefined) {
+    return { Authorization: basicAuthorization(basic.username, basic.password ?? '') };
+  }
+
+  const bearer = lookup(auth.bearer);
+  if (typeof bearer === 'string') {
+    return { Authorization: `Bearer ${bearer}` };
+  }
+
+  const gitlabToken = lookup(auth['gitlab-token']);
+  if (typeof gitlabToken === 'string') {
+    return { 'PRIVATE-TOKEN': gitlabToken };
+  }
+  if (gitlabToken?.token) {
+    return { 'PRIVATE-TOKEN': gitlabToken.token };
+  }
+
+  const gitlabOauth = lookup(auth['gitlab-oauth']);
+  if (typeof gitlabOauth === 'string') {
+    return { Authorization: `Bearer ${gitlabOauth}` };
+  }
+
+  const githubOauth =
+    lookup(auth['github-oauth']) ??
+    (hostname === 'api.github.com' ? auth['github-oauth']?.['github.com'] : undefined);
+  if (typeof githubOauth === 'string') {
+    return { Authorization: `token ${githubOauth}` };
+  }
+
+  return {};
+}
@@ -2,28 +2,44 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import os from 'node:os';
 
-function getCacheDir(): string {
+/**
+ * Cache directory together with the setting it was derived from.
+ */
+export interface CacheDirInfo {
+  path: string;
+  source: 'COMZE_CACHE_DIR' | 'XDG_CACHE_HOME' | 'LOCALAPPDATA' | 'default';
+}
+
+export function resolveCacheDir(): CacheDirInfo {
   const home = os.homedir();
   const platform = os.platform();
   const overrideDir = process.env.COMZE_CACHE_DIR?.trim();
 
   if (overrideDir) {
-    return overrideDir;
+    return { path: overrideDir, source: 'COMZE_CACHE_DIR' };
   }
 
   if (platform === 'win32') {
-    return path.join(
-      process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local'),
-      'comze',
-      'Cache',
-    );
+    const localAppData = process.env.LOCALAPPDATA;
+    return {
+      path: path.join(localAppData || path.join(home, 'AppData', 'Local'), 'comze', 'Cache'),
+      source: localAppData ? 'LOCALAPPDATA' : 'default',
+    };
   }
 
   if (platform === 'darwin') {
-    return path.join(home, 'Library', 'Caches', 'comze');
+    return { path: path.join(home, 'Library', 'Caches', 'comze'), source: 'default' };
   }
 
-  return path.join(process.env.XDG_CACHE_HOME || path.join(home, '.cache'), 'comze');
+  const xdgCacheHome = process.env.XDG_CACHE_HOME;
+  return {
+    path: path.join(xdgCacheHome || path.join(home, '.cache'), 'comze'),
+    source: xdgCacheHome ? 'XDG_CACHE_HOME' : 'default',
+  };
+}
+
+export function getCacheDir(): string {
+  return resolveCacheDir().path;
 }
 
 export interface CacheEntry<T> {
@@ -34,6 +50,12 @@ export interface CacheEntry<T> {
   etag?: string;
 }
 
+/**
+ * Format of the keys comze writes: a repository key (host, optionally
+ * followed by a URL hash) and the metadata file name, separated by `_`.
+ */
+const CACHE_KEY_PATTERN = /^[a-z0-9.-]+_[\w.~-]+$/;
+
 function getCacheFilePath(key: string): string {
   return path.join(getCacheDir(), `${key}.json`);
 }
@@ -81,6 +103,18 @@ export async function setCache<T>(
   } catch {}
 }
 
+/**
+ * Returns when a cache entry was last written or revalidated, in epoch ms.
+ */
+export async function getCacheCheckedAt(key: string): Promise<number | null> {
+  try {
+    const stats = await fs.stat(getCacheFilePath(key));
+    return stats.mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
 export async function touchCache(key: string, version: number): Promise<void> {
   try {
     const entry = await getCacheEntry(key, version);
@@ -90,3 +124,83 @@ export async function touchCache(key: string, version: number): Promise<void> {
     }
   } catch {}
 }
+
+/**
+ * Summary of a cache file as shown by `comze cache list`.
+ */
+export interface CacheFileInfo {
+  key: string;
+  size: number;
+  timestamp: number;
+  checkedAt: number;
+  lastModified?: string;
+  etag?: string;
+  packages: string[];
+}
+
+/**
+ * Lists all cache files with their validators and the packages they hold.
+ * Only files named in comze's key format count as entries, so unrelated JSON
+ * files in a shared cache directory are never listed or removed. Unreadable
+ * files are reported with no packages so they can still be pruned; readable
+ * files that are not cache entries are skipped.
+ */
+export async function listCacheEntries(): Promise<CacheFileInfo[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getCacheDir());
+  } catch {
+    return [];
+  }
+
+  const entries: CacheFileInfo[] = [];
+
+  for (const file of files.filter((name) => name.endsWith('.json')).sort()) {
+    const key = file.slice(0, -'.json'.length);
+    if (!CACHE_KEY_PATTERN.test(key)) continue;
+
+    try {
+      const filePath = getCacheFilePath(key);
+      const stats = await fs.stat(filePath);
+      let data: Partial<CacheEntry<{ packages?: Record<string, unknown> }>> = {};
+      try {
+        data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        if (typeof data?.version !== 'number') continue;
+      } catch {}
+
+      const packages = data.value?.packages;
+      entries.push({
+        key,
+        size: stats.size,
+        timestamp: data.timestamp ?? stats.mtimeMs,
+        checkedAt: stats.mtimeMs,
+        lastModified: data.lastModified,
+        etag: data.etag,
+        packages:
+          packages && typeof packages === 'object' && !Array.isArray(packages)
+            ? Object.keys(packages)
+            : [],
+      });
+    } catch {}
+  }
+
+  return entries;
+}
+
+/**
+ * Deletes the given cache entries.
+ *
+ * @returns Number of entries removed
+ */
+export async function removeCacheEntries(keys: string[]): Promise<number> {
+  let removed = 0;
+
+  for (const key of keys) {
+    try {
+      await fs.rm(getCacheFilePath(key));
+      removed++;
+    } catch {}
+  }
+
+  return removed;
+}
@@ -1,6 +1,13 @@
 import cac from 'cac';
+import pc from 'picocolors';
 import { run } from './index';
 import type { CLIOptions } from './types';
+import { RANGE_STRATEGIES } from './types';
+import { isEnvFlagEnabled, parseConcurrency, parseRangeStrategy } from './config';
+import { CACHE_ACTIONS, runCacheCommand } from './commands/cache';
+import { normalizeRegistryUrl } from './repositories';
+import { parsePhpVersionList } from './utils/php';
+import { parseDuration } from './utils/time';
 import pkg from '../package.json';
 
 const cli = cac('comze');
@@ -18,12 +25,70 @@ cli
     default: '',
   })
   .option('--dry-run', 'Run without making changes', { default: false })
-  .option('--no-cache', 'Bypass cache and force fetch from network', { default: false });
+  .option('--no-cache', 'Bypass cache and force fetch from network', { default: false })
+  .option('--transitive', 'Also report outdated indirect dependencies from composer.lock', {
+    default: false,
+  })
+  .option('--php-matrix [versions]', 'Show PHP support per update (e.g. 8.1,8.2; default: versions allowed by require.php)')
+  .option('--bump-php', 'Raise require.php to unlock versions skipped due to PHP', {
+    default: false,
+  })
+  .option('--range-strategy <strategy>', `How constraints are rewritten (${RANGE_STRATEGIES.join('|')}, default: replace)`)
+  .option('--min-release-age <duration>', 'Hold back releases younger than this (e.g. 3d, 12h)')
+  .option('--strict', 'Exit with an error when any package could not be checked', {
+    default: false,
+  })
+  .option('--concurrency <n>', 'Number of packages checked in parallel (env: COMZE_CONCURRENCY)')
+  .option('--registry <url>', 'Base URL of a p2-compatible packagist.org mirror (env: COMZE_REGISTRY)')
+  .option('--offline', 'Resolve from the local cache without network access (env: COMZE_OFFLINE)', {
+    default: false,
+  });
 
 cli.help();
 cli.version(pkg.version);
 
 cli.command('', 'Check for updates in composer.json').action(async (cliOptions) => {
+  const concurrencyInput = cliOptions.concurrency ?? process.env.COMZE_CONCURRENCY;
+  const concurrency = parseConcurrency(concurrencyInput);
+  if (concurrencyInput !== undefined && concurrency === null) {
+    console.error(pc.red(`  ✗ Invalid concurrency "${concurrencyInput}" (expected a positive integer)`));
+    process.exit(1);
+  }
+
+  const registryInput = cliOptions.registry ?? process.env.COMZE_REGISTRY;
+  const registry = normalizeRegistryUrl(registryInput);
+  if (registryInput !== undefined && registry === null) {
+    console.error(pc.red(`  ✗ Invalid registry URL "${registryInput}"`));
+    process.exit(1);
+  }
+
+  const rangeStrategy = parseRangeStrategy(cliOptions.rangeStrategy);
+  if (cliOptions.rangeStrategy !== undefined && rangeStrategy === null) {
+    console.error(
+      pc.red(`  ✗ Invalid range strategy "${cliOptions.rangeStrategy}" (expected ${RANGE_STRATEGIES.join(', ')})`),
+    );
+    process.exit(1);
+  }
+
+  const minReleaseAge =
+    cliOptions.minReleaseAge !== undefined ? parseDuration(String(cliOptions.minReleaseAge)) : null;
+  if (cliOptions.minReleaseAge !== undefined && minReleaseAge === null) {
+    console.error(pc.red(`  ✗ Invalid duration "${cliOptions.minReleaseAge}" (e.g. 3d, 12h, 2w)`));
+    process.exit(1);
+  }
+
+  let phpMatrix: string[] | true | undefined;
+  if (cliOptions.phpMatrix === true) {
+    phpMatrix = true;
+  } else if (cliOptions.phpMatrix !== undefined) {
+    const versions = parsePhpVersionList(String(cliOptions.phpMatrix));
+    if (!versions) {
+      console.error(pc.red(`  ✗ Invalid PHP versions "${cliOptions.phpMatrix}" (e.g. 8.1,8.2,8.3)`));
+      process.exit(1);
+    }
+    phpMatrix = versions;
+  }
+
   const options: CLIOptions = {
     write: cliOptions.write || cliOptions.install,
     install: cliOptions.install,
@@ -34,9 +99,29 @@ cli.command('', 'Check for updates in composer.json').action(async (cliOptions)
     exclude: cliOptions.exclude ? cliOptions.exclude.split(',').map((s: string) => s.trim()) : [],
     dryRun: cliOptions.dryRun,
     noCache: cliOptions.noCache,
+    offline: cliOptions.offline || isEnvFlagEnabled(process.env.COMZE_OFFLINE),
+    strict: cliOptions.strict,
+    transitive: cliOptions.transitive,
+    bumpPhp: cliOptions.bumpPhp,
+    phpMatrix,
+    concurrency: concurrency ?? undefined,
+    registry: registry ?? undefined,
+    rangeStrategy: rangeStrategy ?? undefined,
+    minReleaseAge: minReleaseAge ?? undefined,
   };
 
   await run(options);
 });
 
+cli
+  .command('cache <action> [...composerFiles]', `Manage the metadata cache (${CACHE_ACTIONS.join('|')})`)
+  .option('--older-than <duration>', 'Prune entries not refreshed within this age (e.g. 30d)')
+  .action(async (action: string, composerFiles: string[], cliOptions) => {
+    const code = await runCacheCommand(action, {
+      olderThan: cliOptions.olderThan,
+      composerFiles,
+    });
+    if (code !== 0) process.exit(code);
+  });
+
 cli.parse();
@@ -0,0 +1,129 @@
+import { resolve } from 'path';
+import pc from 'picocolors';
+import {
+  listCacheEntries,
+  removeCacheEntries,
+  resolveCacheDir,
+  type CacheFileInfo,
+} from '../cache';
+import { readComposerJson } from '../writer';
+import { parseDuration } from '../utils/time';
+import {
+  renderCacheLocation,
+  renderCacheList,
+  renderCacheStats,
+  renderCacheRemoved,
+} from '../ui/render';
+
+export const CACHE_ACTIONS = ['list', 'clean', 'prune', 'stats'] as const;
+
+export type CacheAction = (typeof CACHE_ACTIONS)[number];
+
+export interface CacheCommandOptions {
+  olderThan?: string;
+  composerFiles: string[];
+}
+
+function isCacheAction(action: string): action is CacheAction {
+  return (CACHE_ACTIONS as readonly string[]).includes(action);
+}
+
+async function getReferencedPackages(files: string[]): Promise<Set<string> | null> {
+  const referenced = new Set<string>();
+
+  for (const file of files) {
+    const composer = await readComposerJson(resolve(process.cwd(), file));
+    if (!composer) {
+      console.error(pc.red(`  ✗ Could not read ${file}`));
+      return null;
+    }
+
+    const requires = {
+      ...composer.content.require,
+      ...composer.content['require-dev'],
+    };
+    for (const name of Object.keys(requires)) {
+      referenced.add(name.toLowerCase());
+    }
+  }
+
+  return referenced;
+}
+
+/**
+ * Selects entries older than `maxAge` or holding only packages that none of
+ * the referenced composer.json files require. Repository indexes that inline
+ * packages (e.g. Satis) are matched by those package names too; entries
+ * without packages, such as indexes pointing to a metadata URL, are only
+ * pruned by age.
+ */
+export function selectPrunableEntries(
+  entries: CacheFileInfo[],
+  maxAge: number | null,
+  referenced: Set<string> | null,
+  now: number = Date.now(),
+): CacheFileInfo[] {
+  return entries.filter((entry) => {
+    if (maxAge !== null && now - entry.checkedAt > maxAge) return true;
+    if (!referenced || entry.packages.length === 0) return false;
+    return !entry.packages.some((name) => referenced.has(name.toLowerCase()));
+  });
+}
+
+/**
+ * Runs one of the `comze cache` subcommands.
+ *
+ * @returns Process exit code
+ */
+export async function runCacheCommand(
+  action: string,
+  options: CacheCommandOptions,
+): Promise<number> {
+  if (!isCacheAction(action)) {
+    console.error(pc.red(`  ✗ Unknown cache action "${action}"`));
+    console.error(pc.gray(`    Expected one of: ${CACHE_ACTIONS.join(', ')}`));
+    return 1;
+  }
+
+  renderCacheLocation(resolveCacheDir());
+  const entries = await listCacheEntries();
+
+  switch (action) {
+    case 'list':
+      renderCacheList(entries);
+      return 0;
+
+    case 'stats':
+      renderCacheStats(entries);
+      return 0;
+
+    case 'clean': {
+      const removed = await removeCacheEntries(entries.map((entry) => entry.key));
+      renderCacheRemoved(removed, entries);
+      return 0;
+    }
+
+    case 'prune': {
+      const maxAge = options.olderThan ? parseDuration(options.olderThan) : null;
+      if (options.olderThan && maxAge === null) {
+        console.error(pc.red(`  ✗ Invalid duration "${options.olderThan}" (e.g. 30d, 12h, 2w)`));
+        return 1;
+      }
+      if (maxAge === null && options.composerFiles.length === 0) {
+        console.error(pc.red('  ✗ Pass --older-than <duration> and/or composer.json files'));
+        return 1;
+      }
+
+      const referenced =
+        options.composerFiles.length > 0
+          ? await getReferencedPackages(options.composerFiles)
+          : null;
+      if (options.composerFiles.length > 0 && !referenced) return 1;
+
+      const prunable = selectPrunableEntries(entries, maxAge, referenced);
+      const removed = await removeCacheEntries(prunable.map((entry) => entry.key));
+      renderCacheRemoved(removed, prunable);
+      return 0;
+    }
+  }
+}
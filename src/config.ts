@@ -1,4 +1,8 @@
-import type { ComposerJson } from './types';
+import type { ComposerJson, ProjectPlatform, RangeStrategy, ReleaseAgePolicy } from './types';
+import { RANGE_STRATEGIES } from './types';
+import { normalizeRegistryUrl } from './repositories';
+import { parseDuration } from './utils/time';
+import { tryParseConstraints } from './utils/constraint';
 
 function normalizeExcludeList(excludes: string[]): string[] {
   return [...new Set(excludes.map((value) => value.trim().toLowerCase()).filter(Boolean))];
@@ -16,6 +20,24 @@ export function mergeExcludeLists(fileExcludes: string[], cliExcludes: string[])
   return normalizeExcludeList([...fileExcludes, ...cliExcludes]);
 }
 
+/**
+ * Checks whether a requirement names a platform package such as `php`,
+ * `php-64bit`, `hhvm`, `ext-intl`, `lib-icu` or `composer-runtime-api`,
+ * which Composer provides itself and no repository serves.
+ */
+export function isPlatformPackage(name: string): boolean {
+  const key = name.toLowerCase();
+  return (
+    key === 'php' ||
+    key.startsWith('php-') ||
+    key === 'hhvm' ||
+    key.startsWith('ext-') ||
+    key.startsWith('lib-') ||
+    key === 'composer' ||
+    key.startsWith('composer-')
+  );
+}
+
 export function filterComposerPackages(
   allPackages: Record<string, string>,
   excludes: string[],
@@ -28,7 +50,7 @@ export function filterComposerPackages(
   const ignoredPackages: string[] = [];
 
   for (const [name, version] of Object.entries(allPackages)) {
-    if (name === 'php' || name.startsWith('ext-')) continue;
+    if (isPlatformPackage(name)) continue;
 
     if (excludeSet.has(name.toLowerCase())) {
       ignoredPackages.push(name);
@@ -40,3 +62,164 @@ export function filterComposerPackages(
 
   return { filteredPackages, ignoredPackages };
 }
+
+/**
+ * Interprets a boolean environment variable such as `COMZE_OFFLINE=1`.
+ */
+export function isEnvFlagEnabled(value: string | undefined): boolean {
+  if (!value) return false;
+  return ['1', 'true', 'yes', 'on'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Parses a concurrency setting from a flag, environment variable or
+ * composer.json value.
+ *
+ * @returns A positive integer, or null when the value is missing or invalid
+ */
+export function parseConcurrency(value: unknown): number | null {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < 1) return null;
+  return parsed;
+}
+
+export function getComposerConcurrency(composer: ComposerJson): number | null {
+  return parseConcurrency(composer.extra?.comze?.concurrency);
+}
+
+export function getComposerRegistry(composer: ComposerJson): string | null {
+  return normalizeRegistryUrl(composer.extra?.comze?.registry);
+}
+
+/**
+ * Parses a range strategy from a flag or composer.json value.
+ *
+ * @returns The strategy, or null when the value is missing or unknown
+ */
+export function parseRangeStrategy(value: unknown): RangeStrategy | null {
+  if (typeof value !== 'string') return null;
+  const strategy = value.trim().toLowerCase();
+  return RANGE_STRATEGIES.includes(strategy as RangeStrategy) ? (strategy as RangeStrategy) : null;
+}
+
+/**
+ * Resolves the range strategy of every package. A package's entry in
+ * `extra.comze.rangeStrategies` wins over the `--range-strategy` flag, which
+ * wins over `extra.comze.rangeStrategy`. Unknown values are ignored.
+ *
+ * @returns Strategies keyed by package name, omitting packages using `replace`
+ */
+export function getRangeStrategies(
+  composer: ComposerJson,
+  packages: string[],
+  cliStrategy?: RangeStrategy,
+): Map<string, RangeStrategy> {
+  const config = composer.extra?.comze;
+  const fallback = cliStrategy ?? parseRangeStrategy(config?.rangeStrategy) ?? 'replace';
+  const overrides = new Map<string, RangeStrategy>();
+
+  const entries = config?.rangeStrategies;
+  if (entries && typeof entries === 'object' && !Array.isArray(entries)) {
+    for (const [name, value] of Object.entries(entries)) {
+      const strategy = parseRangeStrategy(value);
+      if (strategy) overrides.set(name.toLowerCase(), strategy);
+    }
+  }
+
+  const strategies = new Map<string, RangeStrategy>();
+  for (const name of packages) {
+    const strategy = overrides.get(name.toLowerCase()) ?? fallback;
+    if (strategy !== 'replace') strategies.set(name, strategy);
+  }
+  return strategies;
+}
+
+/**
+ * Resolves the minimum release age per diff type. `extra.comze.minReleaseAge`
+ * is either a duration for every diff type (`"3d"`) or durations keyed by diff
+ * type (`{ "major": "7d", "patch": "1d" }`). Diff type entries win over the
+ * `--min-release-age` flag, which wins over a single configured duration.
+ * Invalid durations are ignored.
+ *
+ * @returns The policy, or undefined when no minimum age applies
+ */
+export function getReleaseAgePolicy(
+  composer: ComposerJson,
+  cliAge?: number,
+): ReleaseAgePolicy | undefined {
+  const config = composer.extra?.comze?.minReleaseAge;
+  const parse = (value: unknown) => (typeof value === 'string' ? parseDuration(value) : null);
+  const entries = config && typeof config === 'object' && !Array.isArray(config) ? config : {};
+  const fallback = cliAge ?? parse(config);
+
+  const policy: ReleaseAgePolicy = {};
+  for (const diffType of ['major', 'minor', 'patch'] as const) {
+    const age = parse(entries[diffType]) ?? fallback;
+    if (age) policy[diffType] = age;
+  }
+  return Object.keys(policy).length > 0 ? policy : undefined;
+}
+
+/**
+ * Reads the versions to ignore per package from `extra.comze.ignoreVersions`.
+ * Each package maps to an exact version or constraint, or a list of them;
+ * entries that are not valid Composer constraints are dropped.
+ *
+ * @returns Versions and constraints keyed by lowercase package name
+ */
+export function getIgnoredVersions(composer: ComposerJson): Record<string, string[]> {
+  const config = composer.extra?.comze?.ignoreVersions;
+  if (!config || typeof config !== 'object' || Array.isArray(config)) return {};
+
+  const ignored: Record<string, string[]> = {};
+  for (const [name, value] of Object.entries(config)) {
+    const entries = (Array.isArray(value) ? value : [value]).filter(
+      (entry): entry is string => typeof entry === 'string' && tryParseConstraints(entry) !== null,
+    );
+    if (entries.length > 0) ignored[name.toLowerCase()] = entries;
+  }
+  return ignored;
+}
+
+function getPlatformOverrides(composer: ComposerJson): Record<string, unknown> {
+  const platform = (composer.config as { platform?: unknown } | undefined)?.platform;
+  return platform && typeof platform === 'object' && !Array.isArray(platform)
+    ? (platform as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Resolves the PHP version and extensions of the project. `config.platform.php`
+ * takes precedence over `require.php`; `config.platform` extension entries
+ * extend the project's own `ext-*` requirements, and a `false` entry removes one.
+ */
+export function getProjectPlatform(composer: ComposerJson): ProjectPlatform {
+  const overrides = getPlatformOverrides(composer);
+  const requires = { ...composer['require-dev'], ...composer.require };
+  const extensions: Record<string, string> = {};
+
+  for (const [name, constraint] of Object.entries(requires)) {
+    if (name.toLowerCase().startsWith('ext-')) {
+      extensions[name.toLowerCase()] = constraint;
+    }
+  }
+
+  for (const [name, value] of Object.entries(overrides)) {
+    const key = name.toLowerCase();
+    if (!key.startsWith('ext-') && !key.startsWith('lib-')) continue;
+    if (value === false) delete extensions[key];
+    else if (typeof value === 'string') extensions[key] = value;
+  }
+
+  const platform: ProjectPlatform = { extensions };
+
+  if (typeof overrides.php === 'string' && overrides.php.trim() !== '') {
+    platform.php = overrides.php.trim();
+    platform.phpSource = 'config.platform.php';
+  } else if (typeof requires.php === 'string') {
+    platform.php = requires.php;
+    platform.phpSource = 'require.php';
+  }
+
+  return platform;
+}
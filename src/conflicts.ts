@@ -0,0 +1,128 @@
+import type { LockedPackage, PackageInfo } from './types';
+import { isPlatformPackage } from './config';
+import {
+  intersects,
+  matches,
+  normalizeComposerVersion,
+  tryParseConstraints,
+} from './utils/constraint';
+
+/**
+ * Everything a proposed set of updates is checked against.
+ */
+export interface ConflictContext {
+  /** Constraints from composer.json `require` and `require-dev` */
+  requires: Record<string, string>;
+  /** Packages from composer.lock, empty when there is no lock file */
+  locked: LockedPackage[];
+  /** Requirements of the version each update would install, keyed by package name */
+  updateRequires: Map<string, Record<string, string>>;
+}
+
+/**
+ * Checks whether a constraint names a branch such as `dev-main`, which may be
+ * aliased to any version through `branch-alias`.
+ */
+function isBranchConstraint(constraint: string): boolean {
+  return /(?:^|[\s,|])dev-/i.test(constraint);
+}
+
+/**
+ * Checks whether two Composer constraints allow at least one common version.
+ * Constraints that cannot be compared (branches, `self.version`) are assumed
+ * to be compatible.
+ */
+function constraintsIntersect(a: string, b: string): boolean {
+  if (isBranchConstraint(a) || isBranchConstraint(b)) return true;
+
+  const parsedA = tryParseConstraints(a);
+  const parsedB = tryParseConstraints(b);
+  return parsedA && parsedB ? intersects(parsedA, parsedB) : true;
+}
+
+function getRequiredConstraint(pkg: LockedPackage, name: string): string | undefined {
+  return Object.entries(pkg.require ?? {}).find(([required]) => required.toLowerCase() === name)?.[1];
+}
+
+function versionSatisfies(version: string, constraint: string): boolean {
+  const parsed = tryParseConstraints(constraint);
+  if (!parsed || !isReleaseVersion(version)) return true;
+  return matches(parsed, version);
+}
+
+function isReleaseVersion(version: string): boolean {
+  try {
+    return !normalizeComposerVersion(version).startsWith('dev-');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks the requirements of every proposed update against composer.json,
+ * the other proposed updates and the packages locked in composer.lock, as
+ * if all updates were applied together.
+ *
+ * @returns Conflict reasons keyed by the name of the update causing them
+ */
+export function findConflicts(
+  updates: PackageInfo[],
+  context: ConflictContext,
+): Map<string, string[]> {
+  const conflicts = new Map<string, string[]>();
+  const addConflict = (name: string, reason: string) => {
+    conflicts.set(name, [...(conflicts.get(name) ?? []), reason]);
+  };
+
+  const updated = new Map(updates.map((pkg) => [pkg.name.toLowerCase(), pkg]));
+  const requires = new Map(
+    Object.entries(context.requires).map(([name, constraint]) => [name.toLowerCase(), constraint]),
+  );
+  const locked = context.locked.filter((pkg) => !updated.has(pkg.name.toLowerCase()));
+
+  for (const update of updates) {
+    const key = update.name.toLowerCase();
+    const updateRequires = context.updateRequires.get(update.name) ?? {};
+
+    for (const [dependency, constraint] of Object.entries(updateRequires)) {
+      const depKey = dependency.toLowerCase();
+      if (isPlatformPackage(depKey) || depKey === key) continue;
+
+      const depUpdate = updated.get(depKey);
+      const rootConstraint = requires.get(depKey);
+
+      if (depUpdate) {
+        if (!versionSatisfies(depUpdate.latestVersion, constraint)) {
+          addConflict(
+            update.name,
+            `requires ${dependency} ${constraint} but it would be updated to ${depUpdate.latestVersion}`,
+          );
+        }
+      } else if (rootConstraint && !constraintsIntersect(rootConstraint, constraint)) {
+        addConflict(
+          update.name,
+          `requires ${dependency} ${constraint} but composer.json requires ${rootConstraint}`,
+        );
+      }
+
+      for (const pkg of locked) {
+        const lockedConstraint = getRequiredConstraint(pkg, depKey);
+        if (lockedConstraint && !constraintsIntersect(lockedConstraint, constraint)) {
+          addConflict(
+            update.name,
+            `requires ${dependency} ${constraint} but ${pkg.name} ${pkg.version} requires ${lockedConstraint}`,
+          );
+        }
+      }
+    }
+
+    for (const pkg of locked) {
+      const lockedConstraint = getRequiredConstraint(pkg, key);
+      if (lockedConstraint && !versionSatisfies(update.latestVersion, lockedConstraint)) {
+        addConflict(update.name, `${pkg.name} ${pkg.version} requires ${update.name} ${lockedConstraint}`);
+      }
+    }
+  }
+
+  return conflicts;
+}
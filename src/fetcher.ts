@@ -1,14 +1,98 @@
 import semver from 'semver';
-import type { PackagistVersion, Stability } from './types';
+import type {
+  ComposerAuth,
+  DevBranchInfo,
+  FetchProgressEvent,
+  PackageError,
+  PackageErrorKind,
+  PackagistVersion,
+  ReleaseAgePolicy,
+  Stability,
+} from './types';
 import { STABILITY_ORDER } from './types';
-import { getVersionStability, normalizeVersion } from './utils/version';
-import { getCacheEntry, setCache, touchCache, type CacheEntry } from './cache';
-import { checkPhpCompatibility } from './utils/php';
-
-const PACKAGIST_API = 'https://repo.packagist.org/p2';
+import {
+  compareVersions,
+  getBranchLine,
+  getDiffType,
+  getBranchVersion,
+  getVersionStability,
+  isOnBranchLine,
+  normalizeVersion,
+} from './utils/version';
+import {
+  getCacheCheckedAt,
+  getCacheEntry,
+  setCache,
+  touchCache,
+  type CacheEntry,
+} from './cache';
+import { checkPhpCompatibility, checkPlatformRequirements } from './utils/php';
+import { matches, tryParseConstraints } from './utils/constraint';
+import { basicAuthorization, getAuthHeaders } from './auth';
+import { expandMinifiedVersions, MINIFIED_FORMAT } from './utils/metadata';
+import {
+  getComposerRepositories,
+  getPackagesJsonUrl,
+  getRepositoryCacheKey,
+  isPackageAllowed,
+  type Repository,
+} from './repositories';
+import { runPool } from './utils/pool';
 
 const CACHE_VERSION = 1;
 
+/** Per-request timeout in milliseconds */
+const REQUEST_TIMEOUT = 10_000;
+
+/** Deadline for all lookups of a run in milliseconds */
+const RUN_TIMEOUT = 120_000;
+
+/** Retries for rate-limited and temporarily unavailable responses */
+const MAX_RETRIES = 3;
+
+/** Base delay of the exponential backoff in milliseconds */
+const RETRY_DELAY = 500;
+
+/** Upper bound for a server-provided Retry-After in milliseconds */
+const MAX_RETRY_AFTER = 60_000;
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+/** Default number of package lookups kept in flight */
+export const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Composer package name pattern
+ * @see https://getcomposer.org/doc/04-schema.md#name
+ */
+const PACKAGE_NAME_PATTERN = /^[a-z0-9]([_.-]?[a-z0-9]+)*\/[a-z0-9](([_.]|-{1,2})?[a-z0-9]+)*$/;
+
+/**
+ * Error raised when a package lookup fails, carrying the failure kind so
+ * callers can tell a missing package from an unreachable registry.
+ */
+export class FetchError extends Error implements PackageError {
+  readonly kind: PackageErrorKind;
+  readonly status?: number;
+
+  constructor(kind: PackageErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'FetchError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+/**
+ * Converts any thrown value into a structured package error.
+ */
+export function toPackageError(error: unknown): PackageError {
+  if (error instanceof FetchError) {
+    return { kind: error.kind, message: error.message, status: error.status };
+  }
+  return { kind: 'parse', message: 'Unexpected package metadata' };
+}
+
 export interface FetchResult {
   latestVersion: string;
   releaseTime: string;
@@ -18,19 +102,445 @@ export interface FetchResult {
   replacement?: string;
   phpIncompatible?: boolean;
   skippedVersion?: string;
+  skipReason?: string;
+  /** PHP requirement of the skipped version when it was skipped for PHP */
+  skippedPhpRequirement?: string;
+  /** Newest version held back because it is younger than the minimum release age */
+  heldVersion?: string;
+  heldReleaseTime?: string;
+  /** Every candidate is held, so `latestVersion` must not be proposed as an update */
+  allHeld?: boolean;
   require?: Record<string, string>;
+  /** Requirements of the lowest release matching the current constraint, `{}` when it has none */
+  currentRequire?: Record<string, string>;
+  devBranch?: DevBranchInfo;
+  cachedAt?: number;
+}
+
+/**
+ * Additional lookup settings shared by all packages of a run.
+ */
+export interface FetchOptions {
+  repositories?: Repository[];
+  auth?: ComposerAuth;
+  offline?: boolean;
+  /** Per-request timeout in milliseconds */
+  timeout?: number;
+  /** Retries for 429/502/503/504 responses */
+  retries?: number;
+  /** Base backoff delay in milliseconds, doubled on every retry */
+  retryDelay?: number;
+  /** Epoch milliseconds after which no further requests are made */
+  deadline?: number;
+  /** Number of package lookups kept in flight by `fetchAllPackages` */
+  concurrency?: number;
+  /** Called when a package lookup starts, finishes or fails */
+  onProgress?: (event: FetchProgressEvent) => void;
+  /**
+   * Extensions available to the project; ext-* requirements are not checked
+   * without it. Extensions the current release requires count as available.
+   */
+  extensions?: Record<string, string>;
+  /** Stability per package name used by `fetchAllPackages` instead of the minimum stability */
+  stabilities?: Record<string, Stability>;
+  /** Versions younger than this are not proposed, in milliseconds per diff type */
+  minReleaseAge?: ReleaseAgePolicy;
+  /** Versions and constraints never proposed, keyed by lowercase package name */
+  ignoreVersions?: Record<string, string[]>;
+}
+
+/**
+ * Per-request settings threaded through metadata lookups.
+ * In offline mode, `cachedAt` tracks the oldest cache entry that was used.
+ */
+interface RequestContext {
+  noCache: boolean;
+  auth: ComposerAuth;
+  offline: boolean;
+  timeout: number;
+  retries: number;
+  retryDelay: number;
+  deadline: number;
+  cachedAt?: number;
 }
 
 interface PackagistResponse {
   packages?: Record<string, PackagistVersion[]>;
+  minified?: string;
 }
 
 /**
- * Fetches package metadata from the Packagist V2 API.
+ * Root document of a Composer repository
+ * @see https://getcomposer.org/doc/05-repositories.md#packages
+ */
+interface PackagesJson {
+  'metadata-url'?: string;
+  'available-packages'?: string[];
+  packages?: Record<string, Record<string, PackagistVersion>> | [];
+  includes?: Record<string, unknown>;
+}
+
+interface RepositoryIndex {
+  metadataUrl?: string;
+  availablePackages?: Set<string>;
+  packages: Record<string, PackagistVersion[]>;
+}
+
+const repositoryIndexes = new WeakMap<Repository, Promise<RepositoryIndex>>();
+
+function getRequestHeaders(
+  url: string,
+  repo: Repository,
+  context: RequestContext,
+): Record<string, string> {
+  if (repo.credentials && new URL(url).host === new URL(repo.url).host) {
+    const { username, password } = repo.credentials;
+    return { Authorization: basicAuthorization(username, password) };
+  }
+  return getAuthHeaders(url, context.auth);
+}
+
+function isTimeoutError(error: unknown): boolean {
+  const name = (error as { name?: string } | null)?.name;
+  return name === 'TimeoutError' || name === 'AbortError';
+}
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date.
+ *
+ * @returns Delay in milliseconds, or null when the header is missing or invalid
+ */
+function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Requests `url` with a per-request timeout, retrying rate-limited and
+ * temporarily unavailable responses with exponential backoff and jitter.
+ * A server-provided Retry-After takes precedence over the backoff. When the
+ * next attempt would not start before the run deadline, the last response
+ * is returned as is.
+ */
+async function request(
+  url: string,
+  headers: Record<string, string>,
+  context: RequestContext,
+): Promise<Response> {
+  const host = new URL(url).host;
+
+  for (let attempt = 0; ; attempt++) {
+    const remaining = context.deadline - Date.now();
+    if (remaining <= 0) {
+      throw new FetchError('timeout', `Deadline exceeded before contacting ${host}`);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(Math.min(context.timeout, remaining)),
+      });
+    } catch (error) {
+      if (isTimeoutError(error)) {
+        throw new FetchError('timeout', `Timed out waiting for ${host}`);
+      }
+      const code = (error as { cause?: { code?: string } })?.cause?.code;
+      const reason = code ? ` (${code})` : '';
+      throw new FetchError('network', `Could not connect to ${host}${reason}`);
+    }
+
+    if (!RETRYABLE_STATUSES.has(response.status) || attempt >= context.retries) {
+      return response;
+    }
+
+    const backoff = context.retryDelay * 2 ** attempt;
+    const retryAfter = parseRetryAfter(response.headers?.get('Retry-After'));
+    const delay =
+      retryAfter !== null
+        ? Math.min(retryAfter, MAX_RETRY_AFTER)
+        : backoff + Math.random() * backoff;
+
+    if (Date.now() + delay >= context.deadline) return response;
+
+    await sleep(delay);
+  }
+}
+
+/**
+ * Fetches a JSON metadata document, revalidating the cached copy with
+ * If-Modified-Since / If-None-Match when one exists. Credentials are only
+ * sent with the request; the cache stores the response body and validators.
+ * In offline mode the cached copy is returned regardless of its age.
+ *
+ * @returns The parsed document, or null when the server responds with 404
+ */
+async function fetchMetadata<T>(
+  url: string,
+  cacheKey: string,
+  repo: Repository,
+  context: RequestContext,
+): Promise<T | null> {
+  const { noCache } = context;
+
+  if (context.offline) {
+    const entry = await getCacheEntry<T>(cacheKey, CACHE_VERSION);
+    if (!entry) {
+      throw new FetchError('offline', 'unknown (offline)');
+    }
+    const checkedAt = (await getCacheCheckedAt(cacheKey)) ?? entry.timestamp;
+    context.cachedAt = Math.min(context.cachedAt ?? checkedAt, checkedAt);
+    return entry.value;
+  }
+
+  let cachedEntry: CacheEntry<T> | null = null;
+  const headers: Record<string, string> = getRequestHeaders(url, repo, context);
+
+  if (!noCache) {
+    cachedEntry = await getCacheEntry<T>(cacheKey, CACHE_VERSION);
+    if (cachedEntry?.lastModified) {
+      headers['If-Modified-Since'] = cachedEntry.lastModified;
+    }
+    if (cachedEntry?.etag) {
+      headers['If-None-Match'] = cachedEntry.etag;
+    }
+  }
+
+  const response = await request(url, headers, context);
+
+  if (response.status === 304 && cachedEntry) {
+    await touchCache(cacheKey, CACHE_VERSION);
+    return cachedEntry.value;
+  }
+
+  if (response.ok) {
+    let data: T;
+    try {
+      data = (await response.json()) as T;
+    } catch (error) {
+      if (isTimeoutError(error)) {
+        throw new FetchError('timeout', `Timed out waiting for ${new URL(url).host}`);
+      }
+      throw new FetchError('parse', `Invalid JSON from ${new URL(url).host}`);
+    }
+    if (!noCache) {
+      const lastModified = response.headers.get('Last-Modified') || undefined;
+      const etag = response.headers.get('ETag') || undefined;
+      await setCache(cacheKey, data, CACHE_VERSION, { lastModified, etag });
+    }
+    return data;
+  }
+
+  if (response.status === 404) return null;
+
+  const reason = response.status === 429 ? ' (rate limited)' : '';
+  throw new FetchError(
+    'http',
+    `HTTP ${response.status ?? 'error'} from ${new URL(url).host}${reason}`,
+    response.status,
+  );
+}
+
+function collectInlinePackages(
+  target: Record<string, PackagistVersion[]>,
+  packages: PackagesJson['packages'],
+): void {
+  if (!packages || Array.isArray(packages)) return;
+
+  for (const [name, versionMap] of Object.entries(packages)) {
+    const versions = Object.entries(versionMap).map(([version, data]) => ({
+      ...data,
+      version: data.version ?? version,
+    }));
+    target[name] = [...(target[name] ?? []), ...versions].sort((a, b) =>
+      compareVersions(b.version, a.version),
+    );
+  }
+}
+
+/**
+ * Loads a repository's packages.json and its includes to find out where
+ * per-package metadata lives.
+ */
+async function loadRepositoryIndex(
+  repo: Repository,
+  context: RequestContext,
+): Promise<RepositoryIndex> {
+  if (repo.packagist) {
+    return { metadataUrl: `${repo.url}/p2/%package%.json`, packages: {} };
+  }
+
+  const rootUrl = getPackagesJsonUrl(repo);
+  const keyPrefix = getRepositoryCacheKey(repo);
+  const root = await fetchMetadata<PackagesJson>(rootUrl, `${keyPrefix}_packages`, repo, context);
+
+  if (!root) {
+    throw new FetchError('not-found', `Repository ${repo.url} has no packages.json`, 404);
+  }
+
+  const index: RepositoryIndex = { packages: {} };
+
+  if (root['metadata-url']) {
+    index.metadataUrl = new URL(root['metadata-url'], rootUrl).toString();
+  }
+  if (Array.isArray(root['available-packages'])) {
+    index.availablePackages = new Set(root['available-packages']);
+  }
+
+  collectInlinePackages(index.packages, root.packages);
+
+  for (const includePath of Object.keys(root.includes ?? {})) {
+    const includeKey = `${keyPrefix}_${includePath.replace(/[^\w.-]/g, '_')}`;
+    const included = await fetchMetadata<PackagesJson>(
+      new URL(includePath, rootUrl).toString(),
+      includeKey,
+      repo,
+      context,
+    );
+    collectInlinePackages(index.packages, included?.packages);
+  }
+
+  return index;
+}
+
+function getRepositoryIndex(repo: Repository, context: RequestContext): Promise<RepositoryIndex> {
+  let index = repositoryIndexes.get(repo);
+  if (!index) {
+    const loading = loadRepositoryIndex(repo, context);
+    repositoryIndexes.set(repo, loading);
+    // Forget failed loads so the next lookup retries instead of reusing the rejection.
+    loading.catch(() => {
+      if (repositoryIndexes.get(repo) === loading) repositoryIndexes.delete(repo);
+    });
+    index = loading;
+  }
+  return index;
+}
+
+/**
+ * Fetches the versions of a package from one repository. With `dev` set,
+ * the `~dev` metadata file holding branch versions is requested instead.
+ */
+async function fetchFromRepository(
+  repo: Repository,
+  packageName: string,
+  context: RequestContext,
+  dev: boolean = false,
+): Promise<PackagistVersion[]> {
+  const index = await getRepositoryIndex(repo, context);
+
+  const inline = index.packages[packageName];
+  if (inline && inline.length > 0) return inline;
+
+  if (!index.metadataUrl) return [];
+  if (index.availablePackages && !index.availablePackages.has(packageName)) return [];
+
+  const file = dev ? `${packageName}~dev` : packageName;
+  const fileKey = file.replace('/', '_');
+  const cacheKey = `${getRepositoryCacheKey(repo)}_${fileKey}`;
+  const url = index.metadataUrl.replace('%package%', file);
+  const data = await fetchMetadata<PackagistResponse>(url, cacheKey, repo, context);
+  const versions = data?.packages?.[packageName] ?? [];
+
+  return data?.minified === MINIFIED_FORMAT ? expandMinifiedVersions(versions) : versions;
+}
+
+/**
+ * Resolves all versions of a package across repositories in priority order.
+ * A canonical repository that provides the package hides it in all
+ * repositories below; non-canonical repositories let lookups continue.
+ */
+async function resolvePackageVersions(
+  packageName: string,
+  repositories: Repository[],
+  context: RequestContext,
+  dev: boolean = false,
+): Promise<PackagistVersion[]> {
+  const versions: PackagistVersion[] = [];
+  let sources = 0;
+
+  for (const repo of repositories) {
+    if (!isPackageAllowed(repo, packageName)) continue;
+
+    const found = await fetchFromRepository(repo, packageName, context, dev);
+    if (found.length === 0) continue;
+
+    const known = new Set(versions.map((v) => v.version));
+    versions.push(...found.filter((v) => !known.has(v.version)));
+    sources++;
+
+    if (repo.canonical) break;
+  }
+
+  if (sources > 1) {
+    versions.sort((a, b) => compareVersions(b.version, a.version));
+  }
+
+  return versions;
+}
+
+/**
+ * Looks up the head of a required branch in the `~dev` metadata and checks
+ * whether a tagged stable release now covers its release line. The line comes
+ * from the branch's `extra.branch-alias` or from the branch name itself.
+ */
+async function resolveDevBranch(
+  packageName: string,
+  branch: string,
+  versions: PackagistVersion[],
+  repositories: Repository[],
+  context: RequestContext,
+): Promise<DevBranchInfo> {
+  const devVersions = await resolvePackageVersions(packageName, repositories, context, true);
+  const head = [...devVersions, ...versions].find(
+    (v) => v.version.toLowerCase() === branch.toLowerCase(),
+  );
+
+  const alias = head?.extra?.['branch-alias']?.[head.version];
+  const info: DevBranchInfo = {
+    branch,
+    time: head?.time,
+    reference: head?.source?.reference ?? head?.dist?.reference,
+    alias,
+  };
+
+  const line = getBranchLine(alias ?? branch);
+  if (!line) return info;
+
+  const stable = versions.find(
+    (v) => getVersionStability(v.version) === 'stable' && isOnBranchLine(v.version, line),
+  );
+  const stableNorm = stable ? normalizeVersion(stable.version) : null;
+
+  if (stable && stableNorm) {
+    info.stableVersion = stable.version;
+    info.suggestedConstraint = `^${semver.major(stableNorm)}.${semver.minor(stableNorm)}`;
+  }
+
+  return info;
+}
+
+/**
+ * Fetches package metadata from the configured Composer repositories,
+ * falling back to the Packagist V2 API.
+ *
+ * @throws FetchError when the package name is invalid, no repository provides
+ * the package, or a registry cannot be reached or returns invalid data
  *
  * @param packageName - Package name in "vendor/package" format
  * @param minStability - Minimum stability level to consider (default: 'stable')
  * @param preferStable - Prefer stable versions when available (default: true)
+ * @param options - Repositories (default: packagist.org only), credentials, offline mode,
+ * timeouts and retries
  */
 export async function fetchPackage(
   packageName: string,
@@ -40,45 +550,42 @@ export async function fetchPackage(
   allowMajor: boolean = true,
   noCache: boolean = false,
   projectPhp?: string,
-): Promise<FetchResult | null> {
-  const cacheKey = packageName.replace('/', '_');
-
-  let cachedEntry: CacheEntry<PackagistResponse> | null = null;
-  const headers: Record<string, string> = {};
-
-  if (!noCache) {
-    cachedEntry = await getCacheEntry<PackagistResponse>(cacheKey, CACHE_VERSION);
-    if (cachedEntry?.lastModified) {
-      headers['If-Modified-Since'] = cachedEntry.lastModified;
-    }
-    if (cachedEntry?.etag) {
-      headers['If-None-Match'] = cachedEntry.etag;
-    }
+  options: FetchOptions = {},
+): Promise<FetchResult> {
+  if (!PACKAGE_NAME_PATTERN.test(packageName.toLowerCase())) {
+    throw new FetchError('invalid-name', `Invalid package name "${packageName}"`);
   }
 
-  let data: PackagistResponse;
+  const repositories = options.repositories ?? getComposerRepositories({});
+  const context: RequestContext = {
+    noCache,
+    auth: options.auth ?? {},
+    offline: options.offline ?? false,
+    timeout: options.timeout ?? REQUEST_TIMEOUT,
+    retries: options.retries ?? MAX_RETRIES,
+    retryDelay: options.retryDelay ?? RETRY_DELAY,
+    deadline: options.deadline ?? Date.now() + RUN_TIMEOUT,
+  };
 
   try {
-    const url = `${PACKAGIST_API}/${packageName}.json`;
-    const response = await fetch(url, { headers });
-
-    if (response.status === 304 && cachedEntry) {
-      await touchCache(cacheKey, CACHE_VERSION);
-      data = cachedEntry.value;
-    } else if (response.ok) {
-      data = (await response.json()) as PackagistResponse;
-      if (!noCache) {
-        const lastModified = response.headers.get('Last-Modified') || undefined;
-        const etag = response.headers.get('ETag') || undefined;
-        await setCache(cacheKey, data, CACHE_VERSION, { lastModified, etag });
-      }
-    } else {
-      return null;
-    }
+    const versions = await resolvePackageVersions(packageName, repositories, context);
 
-    const versions: PackagistVersion[] = data.packages?.[packageName] ?? [];
+    const branch = currentVersion ? getBranchVersion(currentVersion) : null;
+    const devBranch = branch
+      ? await resolveDevBranch(packageName, branch, versions, repositories, context)
+      : undefined;
 
-    if (versions.length === 0) return null;
+    if (versions.length === 0) {
+      if (!devBranch?.time) {
+        throw new FetchError('not-found', 'Package not found in any repository', 404);
+      }
+      return {
+        latestVersion: devBranch.branch,
+        releaseTime: devBranch.time,
+        devBranch,
+        cachedAt: context.cachedAt,
+      };
+    }
 
     const minLevel = STABILITY_ORDER[minStability];
 
@@ -89,9 +596,13 @@ export async function fetchPackage(
     });
 
     if (eligibleVersions.length === 0) {
-      const first = versions[0];
-      if (!first) return null;
-      return { latestVersion: first.version, releaseTime: first.time };
+      const first = versions[0]!;
+      return {
+        latestVersion: first.version,
+        releaseTime: first.time,
+        devBranch,
+        cachedAt: context.cachedAt,
+      };
     }
 
     let selectedVersion: PackagistVersion | null = null;
@@ -106,63 +617,132 @@ export async function fetchPackage(
     }
 
     if (!selectedVersion) {
-      selectedVersion = eligibleVersions[0] ?? null;
+      selectedVersion = eligibleVersions[0]!;
     }
 
-    if (!selectedVersion) return null;
+    const ignored = (options.ignoreVersions?.[packageName.toLowerCase()] ?? []).flatMap(
+      (constraint) => tryParseConstraints(constraint) ?? [],
+    );
+
+    const currentConstraint = currentVersion ? tryParseConstraints(currentVersion) : null;
+    const currentRelease = currentConstraint
+      ? eligibleVersions.findLast((v) => matches(currentConstraint, v.version))
+      : undefined;
+    const currentExtensions = new Set(
+      Object.keys(currentRelease?.require ?? {}).map((name) => name.toLowerCase()),
+    );
+
+    /**
+     * Returns why a version cannot be proposed: 'ignored' when composer.json
+     * ignores it, 'php' or the missing extension when it cannot be installed
+     * on the project platform, or null when it can be proposed. Extensions
+     * the current release already requires are known to be installed, so
+     * only those a version adds are checked.
+     */
+    const getSkipReason = (version: PackagistVersion): string | null => {
+      if (ignored.some((constraint) => matches(constraint, version.version))) return 'ignored';
+      if (projectPhp && version.require?.php) {
+        if (!checkPhpCompatibility(projectPhp, version.require.php).satisfied) return 'php';
+      }
+      if (options.extensions) {
+        const added = Object.fromEntries(
+          Object.entries(version.require ?? {}).filter(
+            ([name]) => !currentExtensions.has(name.toLowerCase()),
+          ),
+        );
+        const platformCheck = checkPlatformRequirements(added, options.extensions);
+        if (!platformCheck.satisfied) return platformCheck.reason ?? 'platform';
+      }
+      return null;
+    };
 
-    let phpIncompatible = false;
-    let skippedVersion: string | undefined;
+    /**
+     * Checks whether a version is younger than the minimum release age for
+     * its diff type. Without a current version the longest age applies.
+     */
+    const isHeld = (version: PackagistVersion): boolean => {
+      const policy = options.minReleaseAge;
+      if (!policy) return false;
 
-    if (projectPhp && selectedVersion.require?.php) {
-      const phpCheck = checkPhpCompatibility(projectPhp, selectedVersion.require.php);
-      if (!phpCheck.satisfied) {
-        phpIncompatible = true;
-        skippedVersion = selectedVersion.version;
+      const diffType = currentVersion ? getDiffType(currentVersion, version.version) : null;
+      if (currentVersion && !diffType) return false;
 
-        const versionsToCheck = preferStable
-          ? eligibleVersions.filter((v) => getVersionStability(v.version) === 'stable')
-          : eligibleVersions;
+      const minAge = diffType ? (policy[diffType] ?? 0) : Math.max(0, ...Object.values(policy));
+      const released = Date.parse(version.time);
+      return minAge > 0 && Number.isFinite(released) && Date.now() - released < minAge;
+    };
 
-        const compatibleVersion = versionsToCheck.find((v) => {
-          if (!v.require?.php) return true;
-          return checkPhpCompatibility(projectPhp, v.require.php).satisfied;
-        });
+    const versionsToCheck = preferStable
+      ? eligibleVersions.filter((v) => getVersionStability(v.version) === 'stable')
+      : eligibleVersions;
+
+    let heldVersion: PackagistVersion | undefined;
+
+    /**
+     * Finds the newest accepted version old enough to be proposed. The newest
+     * accepted version passed over for its age becomes the held version, so
+     * every fallback reports what it is waiting for.
+     */
+    const findReleasedVersion = (
+      accept: (version: PackagistVersion) => boolean,
+    ): PackagistVersion | undefined => {
+      let held: PackagistVersion | undefined;
+      const found = versionsToCheck.find((v) => {
+        if (!accept(v)) return false;
+        if (!isHeld(v)) return true;
+        held ??= v;
+        return false;
+      });
+      if (found || held) heldVersion = held;
+      return found;
+    };
 
-        if (compatibleVersion && compatibleVersion !== selectedVersion) {
-          selectedVersion = compatibleVersion;
-        }
-      }
+    let allHeld = false;
+    if (isHeld(selectedVersion)) {
+      heldVersion = selectedVersion;
+      const releasedVersion = findReleasedVersion(() => true);
+      allHeld = !releasedVersion;
+      selectedVersion = releasedVersion ?? currentRelease ?? selectedVersion;
+    }
+
+    let phpIncompatible = false;
+    let skippedVersion: string | undefined;
+    let skipReason: string | undefined;
+    let skippedPhpRequirement: string | undefined;
+
+    const selectedSkipReason = getSkipReason(selectedVersion);
+    if (selectedSkipReason) {
+      phpIncompatible = selectedSkipReason === 'php';
+      skippedVersion = selectedVersion.version;
+      skipReason = selectedSkipReason;
+      if (phpIncompatible) skippedPhpRequirement = selectedVersion.require?.php;
+
+      // Keep the current release when no candidate can be installed.
+      selectedVersion =
+        findReleasedVersion((v) => !getSkipReason(v)) ?? currentRelease ?? selectedVersion;
     }
 
     const phpRequirement = selectedVersion.require?.php;
     let majorDetected: string | undefined;
 
-    if (currentVersion) {
-      const currentNorm = normalizeVersion(currentVersion);
-      const selectedNorm = normalizeVersion(selectedVersion.version);
-
-      if (currentNorm && selectedNorm) {
-        const currentMajor = semver.major(currentNorm);
-        const selectedMajor = semver.major(selectedNorm);
-
-        if (selectedMajor > currentMajor) {
-          majorDetected = selectedVersion.version;
-
-          if (!allowMajor) {
-            const versionsToCheck = preferStable
-              ? eligibleVersions.filter((v) => getVersionStability(v.version) === 'stable')
-              : eligibleVersions;
-
-            const sameMajorVersion = versionsToCheck.find((v) => {
-              const norm = normalizeVersion(v.version);
-              return norm && semver.major(norm) === currentMajor;
-            });
+    if (currentVersion && getDiffType(currentVersion, selectedVersion.version) === 'major') {
+      majorDetected = selectedVersion.version;
+
+      if (!allowMajor) {
+        const currentNorm = normalizeVersion(currentVersion);
+        const sameMajorVersion = findReleasedVersion((v) => {
+          const norm = normalizeVersion(v.version);
+          return (
+            !!norm &&
+            !!currentNorm &&
+            semver.major(norm) === semver.major(currentNorm) &&
+            getDiffType(currentVersion, v.version) !== 'major' &&
+            !getSkipReason(v)
+          );
+        });
 
-            if (sameMajorVersion) {
-              selectedVersion = sameMajorVersion;
-            }
-          }
+        if (sameMajorVersion) {
+          selectedVersion = sameMajorVersion;
         }
       }
     }
@@ -188,17 +768,37 @@ export async function fetchPackage(
       replacement: deprecatedInfo.replacement,
       phpIncompatible: phpIncompatible || undefined,
       skippedVersion,
+      skipReason,
+      skippedPhpRequirement,
+      heldVersion: heldVersion?.version,
+      heldReleaseTime: heldVersion?.time,
+      allHeld: allHeld || undefined,
       require: selectedVersion.require,
+      currentRequire: currentRelease ? (currentRelease.require ?? {}) : undefined,
+      devBranch,
+      cachedAt: context.cachedAt,
     };
 
     return result;
-  } catch {
-    return null;
+  } catch (error) {
+    if (error instanceof FetchError) throw error;
+    throw new FetchError('parse', 'Unexpected package metadata');
   }
 }
 
 /**
- * Fetches updates for all packages in parallel with concurrency control.
+ * Results of a batch lookup: packages that could be checked and a
+ * structured error for every package that could not.
+ */
+export interface FetchAllResult {
+  results: Map<string, FetchResult>;
+  errors: Map<string, PackageError>;
+}
+
+/**
+ * Fetches updates for all packages through a bounded work queue that keeps
+ * `options.concurrency` lookups in flight. All lookups share one deadline;
+ * packages not resolved in time are reported as timeouts.
  *
  * @param packages - Map of package names to current versions
  * @param minStability - Minimum stability level
@@ -211,27 +811,43 @@ export async function fetchAllPackages(
   allowMajor: boolean = true,
   noCache: boolean = false,
   projectPhp?: string,
-): Promise<Map<string, FetchResult>> {
+  options: FetchOptions = {},
+): Promise<FetchAllResult> {
   const results = new Map<string, FetchResult>();
+  const errors = new Map<string, PackageError>();
   const entries = Object.entries(packages);
-  const CONCURRENCY = 5;
-
-  for (let i = 0; i < entries.length; i += CONCURRENCY) {
-    const batch = entries.slice(i, i + CONCURRENCY);
-    const promises = batch.map(async ([name, version]) => {
+  const total = entries.length;
+  const { onProgress } = options;
+  const runOptions: FetchOptions = {
+    ...options,
+    deadline: options.deadline ?? Date.now() + RUN_TIMEOUT,
+  };
+  let completed = 0;
+
+  await runPool(entries, options.concurrency ?? DEFAULT_CONCURRENCY, async ([name, version]) => {
+    onProgress?.({ type: 'started', name, completed, total });
+
+    try {
       const result = await fetchPackage(
         name,
-        minStability,
+        options.stabilities?.[name] ?? minStability,
         preferStable,
         version,
         allowMajor,
         noCache,
         projectPhp,
+        runOptions,
       );
-      if (result) results.set(name, result);
-    });
-    await Promise.all(promises);
-  }
+      results.set(name, result);
+      completed++;
+      onProgress?.({ type: 'finished', name, completed, total });
+    } catch (error) {
+      const packageError = toPackageError(error);
+      errors.set(name, packageError);
+      completed++;
+      onProgress?.({ type: 'failed', name, completed, total, error: packageError });
+    }
+  });
 
-  return results;
+  return { results, errors };
 }
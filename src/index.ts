@@ -1,15 +1,72 @@
-import { resolve } from 'path';
+import { dirname, resolve } from 'path';
 import pc from 'picocolors';
-import type { PackageInfo, CLIOptions, Stability, DeprecatedPackage } from './types';
-import { fetchAllPackages } from './fetcher';
+import type {
+  PackageInfo,
+  CLIOptions,
+  Stability,
+  DeprecatedPackage,
+  DevBranchPackage,
+  FailedPackage,
+  HeldPackage,
+  TransitivePackage,
+} from './types';
+import { DEFAULT_CONCURRENCY, fetchAllPackages } from './fetcher';
 import { readComposerJson, writeComposerJson, runComposerUpdate } from './writer';
-import { getDiffType } from './utils/version';
+import { getDiffType, getPackageStability } from './utils/version';
 import { formatAge, getAgeMonths } from './utils/time';
-import { renderHeader, renderTable, renderFooter, renderDeprecated } from './ui/render';
+import {
+  formatPhpBump,
+  getCoveredPhpVersions,
+  getDroppedPhpVersions,
+  getPhpMatrix,
+  suggestPhpBumps,
+} from './utils/php';
+import type { PhpSkip } from './utils/php';
+import {
+  renderHeader,
+  renderTable,
+  renderFooter,
+  renderDeprecated,
+  renderDevBranches,
+  renderFailures,
+  renderHeld,
+  renderTransitive,
+  renderOfflineSummary,
+  renderPhpBumps,
+  createProgressRenderer,
+} from './ui/render';
 import { selectPackages } from './interactive';
-import { getComposerExcludeList, mergeExcludeLists, filterComposerPackages } from './config';
+import { findConflicts } from './conflicts';
+import {
+  getComposerExcludeList,
+  mergeExcludeLists,
+  filterComposerPackages,
+  getComposerConcurrency,
+  getComposerRegistry,
+  getIgnoredVersions,
+  getProjectPlatform,
+  getRangeStrategies,
+  getReleaseAgePolicy,
+} from './config';
+import { getComposerRepositories, PACKAGIST_URL } from './repositories';
+import { loadComposerAuth } from './auth';
+import {
+  getDependencyChains,
+  getLockedExtensions,
+  getLockedPackages,
+  getLockedVersions,
+  getLockStatus,
+  isLockInSync,
+  readComposerLock,
+} from './lock';
 import pkg from '../package.json';
 
+function isDiffTypeEnabled(diffType: PackageInfo['diffType'], options: CLIOptions): boolean {
+  if (diffType === 'major') return options.major;
+  if (diffType === 'minor') return options.minor;
+  return options.patch;
+}
+
 export async function run(options: CLIOptions): Promise<void> {
   renderHeader(pkg.version);
 
@@ -37,23 +94,157 @@ export async function run(options: CLIOptions): Promise<void> {
   if (ignoredPackages.length > 0) {
     console.log(pc.gray(`  Ignoring ${ignoredPackages.length} package${ignoredPackages.length === 1 ? '' : 's'} from exclude list...`));
   }
+  const registry = options.registry ?? getComposerRegistry(composer.content) ?? undefined;
+  const repositories = getComposerRepositories(composer.content, registry);
+  const auth = await loadComposerAuth(dirname(composerPath));
+  const customRepositories = repositories.filter((repo) => !repo.packagist).length;
+  if (customRepositories > 0) {
+    console.log(pc.gray(`  Using ${customRepositories} custom repositor${customRepositories === 1 ? 'y' : 'ies'}...`));
+  }
+  const packagist = repositories.find((repo) => repo.packagist);
+  if (!packagist) {
+    console.log(pc.gray('  packagist.org disabled by composer.json...'));
+  } else if (packagist.url !== PACKAGIST_URL) {
+    console.log(pc.gray(`  Registry: ${packagist.url}...`));
+  }
+  const lock = await readComposerLock(resolve(dirname(composerPath), 'composer.lock'));
+  if (!lock) {
+    console.log(pc.yellow('  No composer.lock found: comparing constraints only'));
+  } else if (!isLockInSync(lock, composer.content)) {
+    console.log(pc.yellow('  composer.lock is out of sync with composer.json (content-hash mismatch)'));
+  }
+  const lockedVersions = lock ? getLockedVersions(lock) : new Map<string, string>();
+  const lockedPackages = new Map(
+    (lock ? getLockedPackages(lock) : []).map((pkg) => [pkg.name.toLowerCase(), pkg]),
+  );
+
+  let transitivePackages: Record<string, string> = {};
+  let dependencyChains = new Map<string, string[]>();
+  if (options.transitive && !lock) {
+    console.log(pc.yellow('  --transitive needs composer.lock: skipping indirect dependencies'));
+  } else if (options.transitive && lock) {
+    const direct = new Set(Object.keys(allPackages).map((name) => name.toLowerCase()));
+    const indirect = Object.fromEntries(
+      getLockedPackages(lock)
+        .filter((pkg) => !direct.has(pkg.name.toLowerCase()))
+        .map((pkg) => [pkg.name, pkg.version]),
+    );
+    transitivePackages = filterComposerPackages(indirect, excludes).filteredPackages;
+    dependencyChains = getDependencyChains(lock, Object.keys(allPackages));
+    const count = Object.keys(transitivePackages).length;
+    console.log(pc.gray(`  Including ${count} indirect dependenc${count === 1 ? 'y' : 'ies'} from composer.lock...`));
+  }
+  if (options.offline) {
+    console.log(pc.yellow('  Offline: resolving from cached metadata only'));
+  }
+  const platform = getProjectPlatform(composer.content);
+  if (platform.php) {
+    console.log(pc.gray(`  PHP: ${platform.php} (${platform.phpSource})`));
+  }
   console.log(pc.gray(`  Stability: ${minStability}${preferStable ? ' (prefer-stable)' : ''}\n`));
 
-  const projectPhp = allPackages['php'];
+  const projectPhp = platform.php;
+  const requirePhp = composer.content.require?.php;
+  const coveredPhp = requirePhp ? getCoveredPhpVersions(requirePhp) : [];
+  const matrixVersions = options.phpMatrix === true ? coveredPhp : (options.phpMatrix ?? []);
+  if (options.phpMatrix === true && matrixVersions.length === 0) {
+    console.log(pc.yellow('  --php-matrix needs require.php or a list of versions: skipping the matrix\n'));
+  }
+  const concurrency =
+    options.concurrency ?? getComposerConcurrency(composer.content) ?? DEFAULT_CONCURRENCY;
+
+  const fetchOptions = {
+    repositories,
+    auth,
+    offline: options.offline,
+    concurrency,
+    // Without composer.lock or declared extensions the installed ones are unknown.
+    extensions:
+      lock || Object.keys(platform.extensions).length > 0
+        ? { ...(lock ? getLockedExtensions(lock) : {}), ...platform.extensions }
+        : undefined,
+    minReleaseAge: getReleaseAgePolicy(composer.content, options.minReleaseAge),
+    ignoreVersions: getIgnoredVersions(composer.content),
+    stabilities: Object.fromEntries(
+      Object.entries(filteredPackages).map(([name, constraint]) => [
+        name,
+        getPackageStability(constraint, minStability),
+      ]),
+    ),
+  };
 
-  const results = await fetchAllPackages(
-    filteredPackages,
+  const { results, errors } = await fetchAllPackages(
+    { ...filteredPackages, ...transitivePackages },
     minStability,
     preferStable,
     options.major,
     options.noCache,
     projectPhp,
+    { ...fetchOptions, onProgress: createProgressRenderer() },
   );
 
+  const phpSkips: PhpSkip[] = Object.entries(filteredPackages).flatMap(([name, currentVersion]) => {
+    const result = results.get(name);
+    if (!result?.skippedVersion || !result.skippedPhpRequirement) return [];
+    const diffType = getDiffType(currentVersion, result.skippedVersion);
+    if (!diffType || !isDiffTypeEnabled(diffType, options)) return [];
+    return [{ name, version: result.skippedVersion, php: result.skippedPhpRequirement }];
+  });
+  const phpBumps = projectPhp ? suggestPhpBumps(projectPhp, phpSkips) : [];
+
+  let bumpedPhp: string | undefined;
+  const unlockedPackages = new Set<string>();
+  if (options.bumpPhp && projectPhp && phpBumps.length > 0) {
+    if (platform.phpSource === 'config.platform.php') {
+      console.log(
+        pc.yellow(`  --bump-php only raises require.php, but config.platform.php pins PHP to ${projectPhp}\n`),
+      );
+    } else {
+      bumpedPhp = formatPhpBump(projectPhp, phpBumps[phpBumps.length - 1]!.version);
+      console.log(pc.gray(`  Raising php to ${bumpedPhp}...`));
+
+      const unlocked = Object.fromEntries(
+        phpBumps.flatMap((bump) => bump.packages).map((skip) => [skip.name, filteredPackages[skip.name]!]),
+      );
+      const bumped = await fetchAllPackages(
+        unlocked,
+        minStability,
+        preferStable,
+        options.major,
+        options.noCache,
+        bumpedPhp,
+        { ...fetchOptions, onProgress: createProgressRenderer() },
+      );
+      for (const [name, result] of bumped.results) {
+        if (result.latestVersion !== results.get(name)?.latestVersion) unlockedPackages.add(name);
+        results.set(name, result);
+      }
+      for (const [name, error] of bumped.errors) {
+        results.delete(name);
+        errors.set(name, error);
+      }
+    }
+  }
+
+  const rangeStrategies = getRangeStrategies(
+    composer.content,
+    Object.keys(filteredPackages),
+    options.rangeStrategy,
+  );
   const updates: PackageInfo[] = [];
+  const updateRequires = new Map<string, Record<string, string>>();
   const deprecatedPackages: DeprecatedPackage[] = [];
+  const devBranches: DevBranchPackage[] = [];
+  const heldPackages: HeldPackage[] = [];
+  const failedPackages: FailedPackage[] = [];
 
   for (const [name, currentVersion] of Object.entries(filteredPackages)) {
+    const error = errors.get(name);
+    if (error) {
+      failedPackages.push({ name, currentVersion, error });
+      continue;
+    }
+
     const result = results.get(name);
     if (!result) continue;
 
@@ -65,14 +256,33 @@ export async function run(options: CLIOptions): Promise<void> {
       });
     }
 
-    const diffType = getDiffType(currentVersion, result.latestVersion);
-    if (!diffType) continue;
+    if (result.devBranch) {
+      devBranches.push({ name, currentVersion, ...result.devBranch });
+      continue;
+    }
 
-    if (diffType === 'major' && !options.major) continue;
-    if (diffType === 'minor' && !options.minor) continue;
-    if (diffType === 'patch' && !options.patch) continue;
+    const diffType = result.allHeld ? null : getDiffType(currentVersion, result.latestVersion);
+    if (!diffType || !isDiffTypeEnabled(diffType, options)) {
+      const heldDiffType = result.heldVersion ? getDiffType(currentVersion, result.heldVersion) : null;
+      if (result.heldVersion && result.heldReleaseTime && heldDiffType && isDiffTypeEnabled(heldDiffType, options)) {
+        heldPackages.push({
+          name,
+          currentVersion,
+          heldVersion: result.heldVersion,
+          heldAge: formatAge(result.heldReleaseTime),
+          diffType: heldDiffType,
+        });
+      }
+      continue;
+    }
 
     const majorAvailable = !options.major && result.majorVersion ? result.majorVersion : undefined;
+    const installedVersion = lockedVersions.get(name.toLowerCase());
+    if (result.require) updateRequires.set(name, result.require);
+    const phpMatrix =
+      matrixVersions.length > 0 ? getPhpMatrix(result.phpRequirement, matrixVersions) : undefined;
+    const lockedPackage = lockedPackages.get(name.toLowerCase());
+    const currentRequire = lockedPackage ? (lockedPackage.require ?? {}) : result.currentRequire;
 
     updates.push({
       name,
@@ -88,14 +298,95 @@ export async function run(options: CLIOptions): Promise<void> {
       replacement: result.replacement,
       phpIncompatible: result.phpIncompatible,
       skippedVersion: result.skippedVersion,
+      skipReason: result.skipReason,
+      cachedAt: result.cachedAt,
+      installedVersion,
+      lockStatus: installedVersion
+        ? getLockStatus(currentVersion, installedVersion, result.latestVersion)
+        : undefined,
+      phpMatrix,
+      phpDropped: currentRequire
+        ? getDroppedPhpVersions(currentRequire.php, result.phpRequirement, coveredPhp)
+        : undefined,
+      rangeStrategy: rangeStrategies.get(name),
+      heldVersion: result.heldVersion,
+      heldAge: result.heldReleaseTime ? formatAge(result.heldReleaseTime) : undefined,
+    });
+  }
+
+  const conflicts = findConflicts(updates, {
+    requires: allPackages,
+    locked: lock ? getLockedPackages(lock) : [],
+    updateRequires,
+  });
+  for (const pkg of updates) {
+    pkg.conflicts = conflicts.get(pkg.name);
+  }
+
+  const transitiveUpdates: TransitivePackage[] = [];
+
+  for (const [name, installedVersion] of Object.entries(transitivePackages)) {
+    const error = errors.get(name);
+    if (error) {
+      failedPackages.push({ name, currentVersion: installedVersion, error });
+      continue;
+    }
+
+    const result = results.get(name);
+    if (!result) continue;
+
+    if (result.deprecated) {
+      deprecatedPackages.push({
+        name,
+        currentVersion: installedVersion,
+        replacement: result.replacement,
+      });
+    }
+
+    const diffType = result.allHeld ? null : getDiffType(installedVersion, result.latestVersion);
+    if (!diffType || !isDiffTypeEnabled(diffType, options)) continue;
+
+    transitiveUpdates.push({
+      name,
+      currentVersion: installedVersion,
+      latestVersion: result.latestVersion,
+      diffType,
+      releaseTime: result.releaseTime,
+      age: formatAge(result.releaseTime),
+      ageMonths: getAgeMonths(result.releaseTime),
+      phpIncompatible: result.phpIncompatible,
+      skippedVersion: result.skippedVersion,
+      skipReason: result.skipReason,
+      deprecated: result.deprecated,
+      cachedAt: result.cachedAt,
+      via: dependencyChains.get(name.toLowerCase()) ?? [],
     });
   }
 
   const order = { major: 0, minor: 1, patch: 2 };
   updates.sort((a, b) => order[a.diffType] - order[b.diffType]);
+  transitiveUpdates.sort((a, b) => order[a.diffType] - order[b.diffType]);
 
   renderTable(updates);
+  if (!bumpedPhp && projectPhp && platform.phpSource) {
+    renderPhpBumps(phpBumps, projectPhp, platform.phpSource);
+  }
+  renderTransitive(transitiveUpdates);
+  renderHeld(heldPackages);
   renderDeprecated(deprecatedPackages);
+  renderDevBranches(devBranches);
+  if (options.offline) {
+    const cachedAt = [...results.values()].flatMap((result) =>
+      result.cachedAt !== undefined ? [result.cachedAt] : [],
+    );
+    renderOfflineSummary(cachedAt);
+  }
+  renderFailures(failedPackages);
+
+  if (options.strict && failedPackages.length > 0) {
+    console.error(pc.red(`  ✗ ${failedPackages.length} package${failedPackages.length === 1 ? '' : 's'} could not be checked`));
+    process.exit(1);
+  }
 
   if (updates.length === 0) return;
 
@@ -109,7 +400,10 @@ export async function run(options: CLIOptions): Promise<void> {
   }
 
   if (options.write || options.install) {
-    const success = await writeComposerJson(composerPath, selectedUpdates, options.dryRun);
+    const success = await writeComposerJson(composerPath, selectedUpdates, options.dryRun, {
+      // Raising php is only worth it for an unlocked update that gets written.
+      php: selectedUpdates.some((pkg) => unlockedPackages.has(pkg.name)) ? bumpedPhp : undefined,
+    });
     if (!success) {
       console.error(pc.red('  ✗ Failed to update composer.json'));
       process.exit(1);
@@ -2,18 +2,26 @@ import prompts from 'prompts';
 import type { PackageInfo } from './types';
 import { formatPackageChoice } from './ui/render';
 
+/**
+ * Builds the multiselect choices. Non-major updates without conflicts are
+ * pre-selected; conflict reasons are shown as the choice description.
+ */
+export function getPackageChoices(packages: PackageInfo[]): prompts.Choice[] {
+  return packages.map((pkg) => ({
+    title: formatPackageChoice(pkg),
+    value: pkg.name,
+    selected: pkg.diffType !== 'major' && !pkg.conflicts,
+    description: pkg.conflicts?.join('; '),
+  }));
+}
+
 /**
  * Presents an interactive multiselect for choosing which packages to update.
- * Non-major updates are pre-selected by default.
  */
 export async function selectPackages(packages: PackageInfo[]): Promise<PackageInfo[]> {
   if (packages.length === 0) return [];
 
-  const choices = packages.map((pkg) => ({
-    title: formatPackageChoice(pkg),
-    value: pkg.name,
-    selected: pkg.diffType !== 'major',
-  }));
+  const choices = getPackageChoices(packages);
 
   const response = await prompts({
     type: 'multiselect',
@@ -0,0 +1,190 @@
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+import semver from 'semver';
+import type { ComposerJson, ComposerLock, LockedPackage, LockStatus } from './types';
+import { normalizeVersion } from './utils/version';
+import { isConstraintSatisfied } from './utils/php';
+
+/**
+ * composer.json keys that affect the lock file's content-hash
+ * @see https://github.com/composer/composer/blob/main/src/Composer/Package/Locker.php
+ */
+const RELEVANT_KEYS = [
+  'name',
+  'version',
+  'require',
+  'require-dev',
+  'conflict',
+  'replace',
+  'provide',
+  'minimum-stability',
+  'prefer-stable',
+  'repositories',
+  'extra',
+];
+
+/**
+ * Reads and parses composer.lock.
+ *
+ * @returns The parsed lock file, or null when it is missing or invalid
+ */
+export async function readComposerLock(path: string): Promise<ComposerLock | null> {
+  if (!existsSync(path)) return null;
+
+  try {
+    const content = JSON.parse(await readFile(path, 'utf-8')) as unknown;
+    return content && typeof content === 'object' ? (content as ComposerLock) : null;
+  } catch {
+    return null;
+  }
+}
+
+function encodePhpString(value: string): string {
+  return JSON.stringify(value)
+    .replace(/\//g, '\\/')
+    .replace(/[\u0080-\uffff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+/**
+ * Encodes a value like PHP's `json_encode` without flags: slashes and
+ * non-ASCII characters are escaped and empty objects become `[]`, since
+ * Composer decodes composer.json into associative arrays.
+ */
+function encodePhpJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return encodePhpString(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return `[${value.map(encodePhpJson).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '[]';
+
+  return `{${entries.map(([key, item]) => `${encodePhpString(key)}:${encodePhpJson(item)}`).join(',')}}`;
+}
+
+/**
+ * Computes the content-hash Composer stores in composer.lock for a
+ * composer.json. Port of Composer's `Locker::getContentHash`.
+ */
+export function getContentHash(composer: ComposerJson): string {
+  const relevant: Record<string, unknown> = {};
+
+  for (const key of RELEVANT_KEYS) {
+    if (key in composer) relevant[key] = composer[key];
+  }
+
+  const platform = (composer.config as { platform?: unknown } | undefined)?.platform;
+  if (platform !== undefined) {
+    relevant.config = { platform };
+  }
+
+  const sorted = Object.fromEntries(
+    Object.keys(relevant)
+      .sort()
+      .map((key) => [key, relevant[key]]),
+  );
+
+  return createHash('md5').update(encodePhpJson(sorted)).digest('hex');
+}
+
+/**
+ * Checks whether composer.lock was generated from the current composer.json.
+ */
+export function isLockInSync(lock: ComposerLock, composer: ComposerJson): boolean {
+  return lock['content-hash'] === getContentHash(composer);
+}
+
+/**
+ * Returns all entries of `packages` and `packages-dev` with a name and version.
+ */
+export function getLockedPackages(lock: ComposerLock): LockedPackage[] {
+  return [...(lock.packages ?? []), ...(lock['packages-dev'] ?? [])].filter(
+    (pkg) => typeof pkg?.name === 'string' && typeof pkg.version === 'string',
+  );
+}
+
+/**
+ * Returns the installed version of every locked package, keyed by
+ * lowercase package name.
+ */
+export function getLockedVersions(lock: ComposerLock): Map<string, string> {
+  const versions = new Map<string, string>();
+
+  for (const pkg of getLockedPackages(lock)) {
+    versions.set(pkg.name.toLowerCase(), pkg.version);
+  }
+
+  return versions;
+}
+
+/**
+ * Returns the extensions required by locked packages. Since these packages
+ * were installed, the extensions are known to be available.
+ */
+export function getLockedExtensions(lock: ComposerLock): Record<string, string> {
+  const extensions: Record<string, string> = {};
+
+  for (const pkg of getLockedPackages(lock)) {
+    for (const name of Object.keys(pkg.require ?? {})) {
+      if (name.toLowerCase().startsWith('ext-')) extensions[name.toLowerCase()] = '*';
+    }
+  }
+
+  return extensions;
+}
+
+/**
+ * Finds how every indirectly required package is pulled in, walking the
+ * `require` maps in composer.lock breadth-first from the direct requirements.
+ *
+ * @param directNames - Packages required by composer.json
+ * @returns For each reachable indirect package (lowercase name), the shortest
+ * chain of package names from a direct requirement to the package requiring it
+ */
+export function getDependencyChains(
+  lock: ComposerLock,
+  directNames: string[],
+): Map<string, string[]> {
+  const packages = new Map(getLockedPackages(lock).map((pkg) => [pkg.name.toLowerCase(), pkg]));
+  const chains = new Map<string, string[]>();
+  const visited = new Set(directNames.map((name) => name.toLowerCase()));
+  const queue: { name: string; chain: string[] }[] = [...visited]
+    .filter((name) => packages.has(name))
+    .map((name) => ({ name, chain: [packages.get(name)!.name] }));
+
+  while (queue.length > 0) {
+    const { name, chain } = queue.shift()!;
+
+    for (const dependency of Object.keys(packages.get(name)?.require ?? {})) {
+      const key = dependency.toLowerCase();
+      const locked = packages.get(key);
+      if (!locked || visited.has(key)) continue;
+
+      visited.add(key);
+      chains.set(key, chain);
+      queue.push({ name: key, chain: [...chain, locked.name] });
+    }
+  }
+
+  return chains;
+}
+
+/**
+ * Classifies an update against the installed version.
+ *
+ * @returns The lock status, or undefined when either version is a branch
+ */
+export function getLockStatus(
+  constraint: string,
+  installedVersion: string,
+  latestVersion: string,
+): LockStatus | undefined {
+  const installed = normalizeVersion(installedVersion);
+  const latest = normalizeVersion(latestVersion);
+  if (!installed || !latest) return undefined;
+
+  if (semver.gte(installed, latest)) return 'lock-current';
+  if (isConstraintSatisfied(latest, constraint)) return 'lock-behind';
+  return 'constraint-change';
+}
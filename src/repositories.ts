@@ -0,0 +1,165 @@
+import { createHash } from 'crypto';
+import type { ComposerJson, ComposerRepository } from './types';
+
+export const PACKAGIST_URL = 'https://repo.packagist.org';
+
+const PACKAGIST_NAMES = ['packagist.org', 'packagist'];
+
+/**
+ * A Composer repository that package metadata can be resolved from.
+ */
+export interface Repository {
+  url: string;
+  canonical: boolean;
+  only: string[];
+  exclude: string[];
+  packagist: boolean;
+  credentials?: { username: string; password: string };
+}
+
+function isComposerRepository(value: unknown): value is ComposerRepository {
+  if (!value || typeof value !== 'object') return false;
+  const repo = value as ComposerRepository;
+  return repo.type === 'composer' && typeof repo.url === 'string' && repo.url.trim() !== '';
+}
+
+function toPatternList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((pattern): pattern is string => typeof pattern === 'string')
+    .map((pattern) => pattern.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function toRepository(repo: ComposerRepository): Repository {
+  const repository: Repository = {
+    url: repo.url!.trim().replace(/\/+$/, ''),
+    canonical: repo.canonical !== false,
+    only: toPatternList(repo.only),
+    exclude: toPatternList(repo.exclude),
+    packagist: false,
+  };
+
+  try {
+    const parsed = new URL(repository.url);
+    if (parsed.username) {
+      repository.credentials = {
+        username: decodeURIComponent(parsed.username),
+        password: decodeURIComponent(parsed.password),
+      };
+      parsed.username = '';
+      parsed.password = '';
+      repository.url = parsed.toString().replace(/\/+$/, '');
+    }
+  } catch {}
+
+  return repository;
+}
+
+/**
+ * Checks whether composer.json disables packagist.org, either with
+ * `{"packagist.org": false}` in the repository map or as a list entry.
+ */
+export function isPackagistDisabled(composer: ComposerJson): boolean {
+  const declared = composer.repositories;
+  if (!declared || typeof declared !== 'object') return false;
+
+  const maps: unknown[] = Array.isArray(declared) ? declared : [declared];
+  return maps.some(
+    (entry) =>
+      !!entry &&
+      typeof entry === 'object' &&
+      PACKAGIST_NAMES.some((name) => (entry as Record<string, unknown>)[name] === false),
+  );
+}
+
+/**
+ * Normalizes the base URL of a p2-compatible registry mirror. A trailing
+ * `/p2` path is accepted and stripped, since lookups append it themselves.
+ *
+ * @returns The base URL, or null when the value is not an http(s) URL
+ */
+export function normalizeRegistryUrl(value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  try {
+    const parsed = new URL(value.trim());
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+  } catch {
+    return null;
+  }
+
+  return value
+    .trim()
+    .replace(/\/+$/, '')
+    .replace(/\/p2$/, '');
+}
+
+/**
+ * Returns the repositories declared in composer.json in Composer's priority
+ * order, followed by packagist.org unless composer.json disables it. Only
+ * `composer` type repositories are supported; vcs, path and package
+ * repositories are ignored.
+ *
+ * @param registry - Base URL of a p2-compatible mirror replacing packagist.org
+ */
+export function getComposerRepositories(composer: ComposerJson, registry?: string): Repository[] {
+  const declared = composer.repositories;
+  const entries: unknown[] = Array.isArray(declared)
+    ? declared
+    : declared && typeof declared === 'object'
+      ? Object.values(declared)
+      : [];
+
+  const repositories = entries.filter(isComposerRepository).map(toRepository);
+
+  if (!isPackagistDisabled(composer)) {
+    const packagist = registry
+      ? toRepository({ type: 'composer', url: registry })
+      : { url: PACKAGIST_URL, canonical: true, only: [], exclude: [] };
+    repositories.push({ ...packagist, packagist: true });
+  }
+
+  return repositories;
+}
+
+function matchesPattern(name: string, pattern: string): boolean {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`).test(name);
+}
+
+/**
+ * Checks a package name against a repository's `only` and `exclude` filters.
+ */
+export function isPackageAllowed(repo: Repository, packageName: string): boolean {
+  const name = packageName.toLowerCase();
+
+  if (repo.only.length > 0 && !repo.only.some((pattern) => matchesPattern(name, pattern))) {
+    return false;
+  }
+
+  return !repo.exclude.some((pattern) => matchesPattern(name, pattern));
+}
+
+/**
+ * Returns the URL of a repository's packages.json root document.
+ */
+export function getPackagesJsonUrl(repo: Repository): string {
+  return repo.url.endsWith('.json') ? repo.url : `${repo.url}/packages.json`;
+}
+
+/**
+ * Builds a filesystem-safe prefix identifying a repository. Repositories
+ * served from a path (e.g. one organisation on a shared host) get a hash of
+ * their full URL appended, so they never share cache entries with other
+ * repositories on the same host.
+ */
+export function getRepositoryCacheKey(repo: Repository): string {
+  const url = new URL(getPackagesJsonUrl(repo));
+  const host = url.host.toLowerCase().replace(/[^a-z0-9.-]/g, '-');
+  const location = `${url.pathname.replace(/\/packages\.json$/, '').replace(/\/+$/, '')}${url.search}`;
+  if (!location) return host;
+
+  const hash = createHash('sha256').update(`${url.host.toLowerCase()}${location}`).digest('hex');
+  return `${host}-${hash.slice(0, 12)}`;
+}
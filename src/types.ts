@@ -15,8 +15,52 @@ export interface PackageInfo {
   replacement?: string;
   phpIncompatible?: boolean;
   skippedVersion?: string;
+  skipReason?: string;
+  cachedAt?: number;
+  installedVersion?: string;
+  lockStatus?: LockStatus;
+  conflicts?: string[];
+  phpMatrix?: Record<string, boolean>;
+  phpDropped?: string[];
+  rangeStrategy?: RangeStrategy;
+  heldVersion?: string;
+  heldAge?: string;
 }
 
+/**
+ * Minimum age in milliseconds a release must have before it is proposed,
+ * per diff type. Diff types without an entry have no minimum age.
+ */
+export type ReleaseAgePolicy = Partial<Record<PackageInfo['diffType'], number>>;
+
+/**
+ * Update of a package that is only required indirectly, shown for
+ * information. `currentVersion` is the locked version and `via` the chain of
+ * packages from a direct requirement down to the package requiring it.
+ */
+export interface TransitivePackage extends PackageInfo {
+  via: string[];
+}
+
+/**
+ * How an update relates to the version installed from composer.lock:
+ * - `lock-current`: the lock already has the latest version, only the constraint lags behind
+ * - `lock-behind`: the latest version satisfies the constraint, `composer update` installs it
+ * - `constraint-change`: the constraint must change to allow the latest version
+ */
+export type LockStatus = 'lock-current' | 'lock-behind' | 'constraint-change';
+
+/**
+ * How a constraint is rewritten when its package is updated:
+ * - `replace`: replace the constraint with the new version in the same style (`^1.0` → `^2.1.0`)
+ * - `widen`: keep the constraint and add the new release line as an alternative (`^1.0 || ^2.0`)
+ * - `bump`: raise the floor when the new version is already allowed (`^1.0` → `^1.5.0`), leave it otherwise
+ * - `keep`: leave the constraint unchanged and only report the update
+ */
+export type RangeStrategy = 'replace' | 'widen' | 'bump' | 'keep';
+
+export const RANGE_STRATEGIES: RangeStrategy[] = ['replace', 'widen', 'bump', 'keep'];
+
 /**
  * Deprecated package info displayed in warnings
  */
@@ -26,6 +70,79 @@ export interface DeprecatedPackage {
   replacement?: string;
 }
 
+/**
+ * Package whose only update is held back by the minimum release age
+ */
+export interface HeldPackage {
+  name: string;
+  currentVersion: string;
+  heldVersion: string;
+  heldAge: string;
+  diffType: 'major' | 'minor' | 'patch';
+}
+
+/**
+ * State of a branch that is required directly (e.g. "dev-main" or "2.x-dev")
+ */
+export interface DevBranchInfo {
+  branch: string;
+  time?: string;
+  reference?: string;
+  alias?: string;
+  stableVersion?: string;
+  suggestedConstraint?: string;
+}
+
+/**
+ * Dev branch requirement displayed in the branch report
+ */
+export interface DevBranchPackage extends DevBranchInfo {
+  name: string;
+  currentVersion: string;
+}
+
+/**
+ * Why a package could not be checked
+ */
+export type PackageErrorKind =
+  | 'not-found'
+  | 'http'
+  | 'timeout'
+  | 'network'
+  | 'parse'
+  | 'invalid-name'
+  | 'offline';
+
+/**
+ * Structured failure for a single package lookup
+ */
+export interface PackageError {
+  kind: PackageErrorKind;
+  message: string;
+  status?: number;
+}
+
+/**
+ * Package that could not be checked, displayed in the failure report
+ */
+export interface FailedPackage {
+  name: string;
+  currentVersion: string;
+  error: PackageError;
+}
+
+/**
+ * Progress of a batch lookup, emitted when a package lookup starts and
+ * when it settles. `completed` counts settled lookups including this one.
+ */
+export interface FetchProgressEvent {
+  type: 'started' | 'finished' | 'failed';
+  name: string;
+  completed: number;
+  total: number;
+  error?: PackageError;
+}
+
 /**
  * CLI options parsed from command line arguments
  */
@@ -39,10 +156,30 @@ export interface CLIOptions {
   exclude: string[];
   dryRun: boolean;
   noCache: boolean;
+  offline: boolean;
+  strict: boolean;
+  transitive: boolean;
+  bumpPhp: boolean;
+  /** PHP versions to evaluate, or true to derive them from require.php */
+  phpMatrix?: string[] | true;
+  concurrency?: number;
+  registry?: string;
+  rangeStrategy?: RangeStrategy;
+  /** Minimum release age in milliseconds for every diff type */
+  minReleaseAge?: number;
 }
 
 export interface ComzeConfig {
   exclude?: string[];
+  concurrency?: number;
+  registry?: string;
+  rangeStrategy?: RangeStrategy;
+  /** Range strategies keyed by package name, overriding `rangeStrategy` */
+  rangeStrategies?: Record<string, RangeStrategy>;
+  /** Duration such as "3d", or durations keyed by diff type */
+  minReleaseAge?: string | Partial<Record<PackageInfo['diffType'], string>>;
+  /** Versions or constraints never proposed, keyed by package name */
+  ignoreVersions?: Record<string, string | string[]>;
   [key: string]: unknown;
 }
 
@@ -77,6 +214,9 @@ export interface PackagistVersion {
   time: string;
   require?: Record<string, string>;
   abandoned?: boolean | string;
+  source?: { reference?: string };
+  dist?: { reference?: string };
+  extra?: { 'branch-alias'?: Record<string, string>; [key: string]: unknown };
 }
 
 /**
@@ -88,12 +228,84 @@ export interface PackagistResponse {
   };
 }
 
+/**
+ * Repository entry from the composer.json "repositories" section
+ * @see https://getcomposer.org/doc/05-repositories.md
+ */
+export interface ComposerRepository {
+  type: string;
+  url?: string;
+  canonical?: boolean;
+  only?: string[];
+  exclude?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Repositories may be declared as a list or as a map keyed by name.
+ * A `false` value disables a repository (e.g. `"packagist.org": false`).
+ */
+export type ComposerRepositories =
+  | (ComposerRepository | Record<string, false>)[]
+  | Record<string, ComposerRepository | false>;
+
+/**
+ * Credentials from auth.json or the COMPOSER_AUTH environment variable, keyed by host
+ * @see https://getcomposer.org/doc/articles/authentication-for-private-packages.md
+ */
+export interface ComposerAuth {
+  'http-basic'?: Record<string, { username: string; password: string }>;
+  bearer?: Record<string, string>;
+  'github-oauth'?: Record<string, string>;
+  'gitlab-token'?: Record<string, string | { username?: string; token: string }>;
+  'gitlab-oauth'?: Record<string, string>;
+}
+
+/**
+ * Package entry from composer.lock
+ */
+export interface LockedPackage {
+  name: string;
+  version: string;
+  require?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Parsed composer.lock structure
+ * @see https://getcomposer.org/doc/01-basic-usage.md#commit-your-composer-lock-file-to-version-control
+ */
+export interface ComposerLock {
+  'content-hash'?: string;
+  packages?: LockedPackage[];
+  'packages-dev'?: LockedPackage[];
+  [key: string]: unknown;
+}
+
+/**
+ * Where the PHP version used for compatibility checks comes from
+ */
+export type PhpSource = 'config.platform.php' | 'require.php';
+
+/**
+ * PHP version and extensions the project resolves dependencies against.
+ * `config.platform` entries override the project's own `require` entries,
+ * like they do for Composer.
+ * @see https://getcomposer.org/doc/06-config.md#platform
+ */
+export interface ProjectPlatform {
+  php?: string;
+  phpSource?: PhpSource;
+  extensions: Record<string, string>;
+}
+
 /**
  * Parsed composer.json structure
  */
 export interface ComposerJson {
   require?: Record<string, string>;
   'require-dev'?: Record<string, string>;
+  repositories?: ComposerRepositories;
   'minimum-stability'?: Stability;
   'prefer-stable'?: boolean;
   extra?: ComposerExtra;
@@ -1,5 +1,19 @@
 import pc from 'picocolors';
-import type { PackageInfo, DeprecatedPackage } from '../types';
+import type {
+  LockStatus,
+  PackageInfo,
+  TransitivePackage,
+  DeprecatedPackage,
+  DevBranchPackage,
+  FailedPackage,
+  FetchProgressEvent,
+  HeldPackage,
+  PhpSource,
+} from '../types';
+import type { CacheDirInfo, CacheFileInfo } from '../cache';
+import { formatAge } from '../utils/time';
+import { formatPhpBump } from '../utils/php';
+import type { PhpBump } from '../utils/php';
 
 /**
  * Colors the age based on how old the release is.
@@ -15,7 +29,22 @@ function colorAge(age: string, ageMonths: number): string {
 }
 
 /**
- * Renders the package update table to stdout.
+ * Describes how old cached metadata is, e.g. "cached 3 d ago".
+ */
+function formatCacheAge(cachedAt: number): string {
+  const age = formatAge(new Date(cachedAt).toISOString());
+  return age === 'now' ? 'cached just now' : `cached ${age} ago`;
+}
+
+const LOCK_STATUS_LABELS: Record<LockStatus, string> = {
+  'lock-current': pc.gray('lock current'),
+  'lock-behind': pc.cyan('composer update'),
+  'constraint-change': pc.yellow('constraint change'),
+};
+
+/**
+ * Renders the package update table to stdout. When composer.lock was read,
+ * an installed-version column and the lock status of every update are shown.
  */
 export function renderTable(packages: PackageInfo[]): void {
   if (packages.length === 0) {
@@ -26,12 +55,21 @@ export function renderTable(packages: PackageInfo[]): void {
   const nameWidth = Math.max(...packages.map((p) => p.name.length), 10);
   const oldWidth = Math.max(...packages.map((p) => p.currentVersion.length), 8);
   const newWidth = Math.max(...packages.map((p) => p.latestVersion.length), 8);
+  const showInstalled = packages.some((p) => p.installedVersion);
+  const installedWidth = Math.max(...packages.map((p) => p.installedVersion?.length ?? 0), 9);
+  const matrixVersions = Object.keys(packages.find((p) => p.phpMatrix)?.phpMatrix ?? {});
 
   console.log('');
+  if (matrixVersions.length > 0) {
+    console.log(pc.gray(`  PHP matrix: ${matrixVersions.join(' ')}`));
+  }
 
   for (const pkg of packages) {
     const name = pc.bold(pkg.name.padEnd(nameWidth));
     const oldVer = pkg.currentVersion.padStart(oldWidth);
+    const installed = showInstalled
+      ? `  ${pc.gray((pkg.installedVersion ?? '-').padStart(installedWidth))}`
+      : '';
     const arrow = '→';
     const newVer = pkg.latestVersion.padEnd(newWidth);
     const age = colorAge(pkg.age, pkg.ageMonths);
@@ -55,14 +93,32 @@ export function renderTable(packages: PackageInfo[]): void {
     }
 
     let extra = '';
+    if (pkg.phpMatrix) {
+      extra += `  ${formatPhpMatrix(pkg.phpMatrix, pkg.phpDropped)}`;
+    }
+    if (pkg.phpDropped && pkg.phpDropped.length > 0) {
+      extra += pc.red(`  drops php ${pkg.phpDropped.join(', ')}`);
+    }
+    if (pkg.conflicts) {
+      extra += pc.red('  ✗ conflict');
+    }
+    if (pkg.lockStatus) {
+      extra += `  ${LOCK_STATUS_LABELS[pkg.lockStatus]}`;
+    }
+    if (pkg.rangeStrategy) {
+      extra += pc.gray(`  range: ${pkg.rangeStrategy}`);
+    }
     if (pkg.majorAvailable) {
       extra += pc.magenta(`  ${pkg.majorAvailable} available`);
     }
     if (pkg.phpRequirement) {
       extra += pc.gray(`  php ${pkg.phpRequirement}`);
     }
-    if (pkg.phpIncompatible && pkg.skippedVersion) {
-      extra += pc.yellow(`  ${pkg.skippedVersion} skipped (php)`);
+    if (pkg.skippedVersion && (pkg.phpIncompatible || pkg.skipReason)) {
+      extra += pc.yellow(`  ${pkg.skippedVersion} skipped (${pkg.skipReason ?? 'php'})`);
+    }
+    if (pkg.heldVersion) {
+      extra += pc.yellow(`  ${pkg.heldVersion} held (${pkg.heldAge} old)`);
     }
     if (pkg.deprecated) {
       extra += pc.red('  deprecated');
@@ -70,8 +126,13 @@ export function renderTable(packages: PackageInfo[]): void {
         extra += pc.yellow(` → ${pkg.replacement}`);
       }
     }
+    if (pkg.cachedAt !== undefined) {
+      extra += pc.yellow(`  ${formatCacheAge(pkg.cachedAt)}`);
+    }
 
-    console.log(`  ${name}  ${oldVer}  ${arrow}  ${coloredNewVer}  ${diffLabel}  ${age}${extra}`);
+    console.log(
+      `  ${name}  ${oldVer}${installed}  ${arrow}  ${coloredNewVer}  ${diffLabel}  ${age}${extra}`,
+    );
   }
 
   const skippedPackages = packages.filter((p) => p.phpIncompatible && p.skippedVersion);
@@ -83,6 +144,106 @@ export function renderTable(packages: PackageInfo[]): void {
     console.log(pc.gray('    Update the php constraint in composer.json to use these versions.'));
   }
 
+  const extensionSkips = packages.filter(
+    (p) => !p.phpIncompatible && p.skipReason && p.skipReason !== 'ignored' && p.skippedVersion,
+  );
+  if (extensionSkips.length > 0) {
+    console.log(pc.yellow('\n  Some versions skipped due to missing extensions:'));
+    for (const pkg of extensionSkips) {
+      console.log(`    ${pc.bold(pkg.name)} ${pkg.skippedVersion} requires ${pkg.skipReason}`);
+    }
+    console.log(pc.gray('    Require the extension or add it to config.platform if it is installed.'));
+  }
+
+  const droppingPackages = packages.filter((p) => p.phpDropped && p.phpDropped.length > 0);
+  if (droppingPackages.length > 0) {
+    console.log(pc.red('\n  Updates dropping PHP versions allowed by composer.json:'));
+    for (const pkg of droppingPackages) {
+      console.log(
+        `    ${pc.bold(pkg.name)} ${pkg.latestVersion} requires php ${pkg.phpRequirement} (drops ${pkg.phpDropped!.join(', ')})`,
+      );
+    }
+  }
+
+  const conflictingPackages = packages.filter((p) => p.conflicts);
+  if (conflictingPackages.length > 0) {
+    console.log(pc.red('\n  Conflicting updates:'));
+    for (const pkg of conflictingPackages) {
+      for (const reason of pkg.conflicts!) {
+        console.log(`    ${pc.bold(pkg.name)} ${pkg.latestVersion} ${reason}`);
+      }
+    }
+  }
+
+  console.log('');
+}
+
+/**
+ * Formats one row of the PHP matrix: ✓ for supported versions, a red ✗ for
+ * versions the update drops and a gray ✗ for the rest.
+ */
+export function formatPhpMatrix(matrix: Record<string, boolean>, dropped: string[] = []): string {
+  return Object.entries(matrix)
+    .map(([version, supported]) => {
+      if (supported) return pc.green('✓');
+      return dropped.includes(version) ? pc.red('✗') : pc.gray('✗');
+    })
+    .join('');
+}
+
+/**
+ * Renders the PHP versions that would unlock versions skipped due to PHP,
+ * with the total number of updates each one unlocks.
+ */
+export function renderPhpBumps(bumps: PhpBump[], projectPhp: string, phpSource: PhpSource): void {
+  if (bumps.length === 0) return;
+
+  const field = phpSource === 'config.platform.php' ? 'config.platform.php' : 'php';
+  let unlocked = 0;
+
+  for (const bump of bumps) {
+    unlocked += bump.packages.length;
+    const constraint = formatPhpBump(projectPhp, bump.version);
+    console.log(
+      pc.cyan(`  Raising ${field} to ${constraint} unlocks ${unlocked} update${unlocked === 1 ? '' : 's'}`),
+    );
+    for (const skip of bump.packages) {
+      console.log(pc.gray(`    ${skip.name} ${skip.version} (php ${skip.php})`));
+    }
+  }
+
+  if (phpSource === 'require.php') {
+    const highest = formatPhpBump(projectPhp, bumps[bumps.length - 1]!.version);
+    console.log(pc.gray(`  Run "comze -w --bump-php" to raise require.php to ${highest}`));
+  }
+  console.log('');
+}
+
+/**
+ * Renders updates of indirect dependencies with the chain of packages that
+ * pulls each one in. These rows are informational and never written.
+ */
+export function renderTransitive(packages: TransitivePackage[]): void {
+  if (packages.length === 0) return;
+
+  console.log(pc.cyan('  Indirect dependencies (from composer.lock):'));
+
+  const nameWidth = Math.max(...packages.map((p) => p.name.length));
+  const oldWidth = Math.max(...packages.map((p) => p.currentVersion.length));
+  const newWidth = Math.max(...packages.map((p) => p.latestVersion.length));
+  const colors = { major: pc.red, minor: pc.cyan, patch: pc.green };
+  const labels = { major: '! major', minor: '~ minor', patch: '. patch' };
+
+  for (const pkg of packages) {
+    const color = colors[pkg.diffType];
+    const via = pkg.via.length > 0 ? pc.gray(`  via ${pkg.via.join(' → ')}`) : '';
+    const deprecated = pkg.deprecated ? pc.red('  deprecated') : '';
+    console.log(
+      `  ${pc.bold(pkg.name.padEnd(nameWidth))}  ${pkg.currentVersion.padStart(oldWidth)}  →  ${color(pkg.latestVersion.padEnd(newWidth))}  ${color(labels[pkg.diffType])}  ${colorAge(pkg.age, pkg.ageMonths)}${deprecated}${via}`,
+    );
+  }
+
+  console.log(pc.gray('  Indirect dependencies are display-only and never written to composer.json.'));
   console.log('');
 }
 
@@ -121,15 +282,31 @@ export function formatPackageChoice(pkg: PackageInfo): string {
   }
 
   const age = colorAge(pkg.age, pkg.ageMonths);
+  const installed = pkg.installedVersion ? pc.gray(` (${pkg.installedVersion})`) : '';
   let extra = '';
+  if (pkg.conflicts) {
+    extra += pc.red(' ✗ conflict');
+  }
+  if (pkg.phpDropped && pkg.phpDropped.length > 0) {
+    extra += pc.red(` drops php ${pkg.phpDropped.join(', ')}`);
+  }
+  if (pkg.lockStatus) {
+    extra += ` ${LOCK_STATUS_LABELS[pkg.lockStatus]}`;
+  }
+  if (pkg.rangeStrategy) {
+    extra += pc.gray(` range: ${pkg.rangeStrategy}`);
+  }
   if (pkg.majorAvailable) {
     extra += pc.magenta(` ${pkg.majorAvailable} available`);
   }
   if (pkg.phpRequirement) {
     extra += pc.gray(` php ${pkg.phpRequirement}`);
   }
-  if (pkg.phpIncompatible && pkg.skippedVersion) {
-    extra += pc.yellow(` ${pkg.skippedVersion} skipped`);
+  if (pkg.skippedVersion && (pkg.phpIncompatible || pkg.skipReason)) {
+    extra += pc.yellow(` ${pkg.skippedVersion} skipped (${pkg.skipReason ?? 'php'})`);
+  }
+  if (pkg.heldVersion) {
+    extra += pc.yellow(` ${pkg.heldVersion} held (${pkg.heldAge} old)`);
   }
   if (pkg.deprecated) {
     extra += pc.red(' deprecated');
@@ -138,7 +315,7 @@ export function formatPackageChoice(pkg: PackageInfo): string {
     }
   }
 
-  return `${pc.bold(pkg.name)} ${pkg.currentVersion} ${arrow} ${coloredNewVer} ${diffLabel} ${age}${extra}`;
+  return `${pc.bold(pkg.name)} ${pkg.currentVersion}${installed} ${arrow} ${coloredNewVer} ${diffLabel} ${age}${extra}`;
 }
 
 export function renderDeprecated(packages: DeprecatedPackage[]): void {
@@ -155,3 +332,179 @@ export function renderDeprecated(packages: DeprecatedPackage[]): void {
 
   console.log('');
 }
+
+export function renderHeld(packages: HeldPackage[]): void {
+  if (packages.length === 0) return;
+
+  console.log(pc.yellow('  Held back by the minimum release age:'));
+
+  const nameWidth = Math.max(...packages.map((p) => p.name.length));
+  const currentWidth = Math.max(...packages.map((p) => p.currentVersion.length));
+
+  for (const pkg of packages) {
+    const name = pc.bold(pkg.name.padEnd(nameWidth));
+    const current = pc.gray(pkg.currentVersion.padEnd(currentWidth));
+    console.log(`  ${name}  ${current}  ${pc.yellow(`${pkg.heldVersion} held (${pkg.heldAge} old)`)}`);
+  }
+
+  console.log('');
+}
+
+export function renderOfflineSummary(cachedAt: number[]): void {
+  if (cachedAt.length === 0) return;
+
+  const oldest = Math.min(...cachedAt);
+  console.log(
+    pc.yellow(
+      `  Resolved ${cachedAt.length} package${cachedAt.length === 1 ? '' : 's'} from cache (oldest ${formatCacheAge(oldest)})`,
+    ),
+  );
+  console.log('');
+}
+
+/**
+ * Creates a progress listener that redraws one status line while packages
+ * are checked and clears it once all lookups settled. Does nothing when the
+ * stream is not a terminal.
+ */
+export function createProgressRenderer(
+  stream: Pick<NodeJS.WriteStream, 'isTTY' | 'write'> = process.stdout,
+): (event: FetchProgressEvent) => void {
+  if (!stream.isTTY) return () => {};
+
+  let failed = 0;
+
+  return (event) => {
+    if (event.type === 'failed') failed++;
+
+    if (event.completed === event.total) {
+      stream.write('\r\x1b[K');
+      return;
+    }
+
+    const failures = failed > 0 ? pc.red(` · ${failed} failed`) : '';
+    const current = event.type === 'started' ? pc.gray(` · ${event.name}`) : '';
+    stream.write(`\r\x1b[K  ${pc.gray(`Checked ${event.completed}/${event.total}`)}${failures}${current}`);
+  };
+}
+
+export function renderFailures(packages: FailedPackage[]): void {
+  if (packages.length === 0) return;
+
+  console.log(pc.red('  Could not check:'));
+
+  const nameWidth = Math.max(...packages.map((p) => p.name.length));
+
+  for (const pkg of packages) {
+    const reason =
+      pkg.error.kind === 'offline' ? pc.yellow(pkg.error.message) : pc.red(pkg.error.message);
+    console.log(
+      `  ${pc.red('✗')} ${pc.bold(pkg.name.padEnd(nameWidth))}  ${pc.gray(pkg.currentVersion)}  ${reason}`,
+    );
+  }
+
+  console.log('');
+}
+
+export function renderDevBranches(packages: DevBranchPackage[]): void {
+  if (packages.length === 0) return;
+
+  console.log(pc.cyan('  Dev branch requirements:'));
+
+  const nameWidth = Math.max(...packages.map((p) => p.name.length));
+  const branchWidth = Math.max(...packages.map((p) => p.currentVersion.length));
+
+  for (const pkg of packages) {
+    const name = pc.bold(pkg.name.padEnd(nameWidth));
+    const branch = pkg.currentVersion.padEnd(branchWidth);
+
+    if (!pkg.time) {
+      console.log(`  ${name}  ${branch}  ${pc.yellow('branch not found')}`);
+      continue;
+    }
+
+    let details = pc.gray(`  ${formatAge(pkg.time).padStart(6)}`);
+    if (pkg.reference) {
+      details += pc.gray(`  ${pkg.reference.slice(0, 7)}`);
+    }
+    if (pkg.alias) {
+      details += pc.gray(`  (${pkg.alias})`);
+    }
+    if (pkg.suggestedConstraint) {
+      details += pc.green(`  → ${pkg.suggestedConstraint} now released`);
+    }
+
+    console.log(`  ${name}  ${branch}${details}`);
+  }
+
+  console.log('');
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function sumSizes(entries: CacheFileInfo[]): number {
+  return entries.reduce((total, entry) => total + entry.size, 0);
+}
+
+export function renderCacheLocation(dir: CacheDirInfo): void {
+  const source = dir.source === 'default' ? 'default location' : `from ${dir.source}`;
+  console.log('');
+  console.log(`  ${pc.bold('Cache:')} ${dir.path} ${pc.gray(`(${source})`)}`);
+  console.log('');
+}
+
+export function renderCacheList(entries: CacheFileInfo[]): void {
+  if (entries.length === 0) {
+    console.log(pc.gray('  Cache is empty.\n'));
+    return;
+  }
+
+  const labels = entries.map((entry) => entry.packages.join(', ') || entry.key);
+  const labelWidth = Math.max(...labels.map((label) => label.length), 10);
+
+  entries.forEach((entry, i) => {
+    const label = pc.bold(labels[i]!.padEnd(labelWidth));
+    const age = formatAge(new Date(entry.checkedAt).toISOString()).padStart(6);
+    const validators =
+      [entry.etag && 'etag', entry.lastModified && 'last-modified'].filter(Boolean).join(', ') ||
+      'no validators';
+    const size = formatBytes(entry.size).padStart(9);
+
+    console.log(`  ${label}  ${pc.gray(age)}  ${size}  ${pc.gray(validators)}`);
+  });
+
+  console.log('');
+  console.log(pc.gray(`  ${entries.length} entries, ${formatBytes(sumSizes(entries))}\n`));
+}
+
+export function renderCacheStats(entries: CacheFileInfo[]): void {
+  const rows: [string, string][] = [
+    ['Entries', String(entries.length)],
+    ['Disk usage', formatBytes(sumSizes(entries))],
+  ];
+
+  if (entries.length > 0) {
+    const checked = entries.map((entry) => entry.checkedAt);
+    const validated = entries.filter((entry) => entry.etag || entry.lastModified).length;
+    rows.push(
+      ['Oldest', formatAge(new Date(Math.min(...checked)).toISOString())],
+      ['Newest', formatAge(new Date(Math.max(...checked)).toISOString())],
+      ['Revalidatable', `${validated}/${entries.length}`],
+    );
+  }
+
+  for (const [label, value] of rows) {
+    console.log(`  ${pc.gray(`${label}:`.padEnd(15))}${value}`);
+  }
+
+  console.log('');
+}
+
+export function renderCacheRemoved(removed: number, entries: CacheFileInfo[]): void {
+  const noun = removed === 1 ? 'entry' : 'entries';
+  console.log(pc.green(`  ✓ Removed ${removed} ${noun} (${formatBytes(sumSizes(entries))})\n`));
+}
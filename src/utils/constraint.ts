@@ -0,0 +1,687 @@
+import type { Stability } from '../types';
+
+/**
+ * Composer version constraints with Composer's own semantics.
+ * Port of the parts of composer/semver comze needs: `VersionParser::normalize`,
+ * `VersionParser::parseConstraints`, PHP's `version_compare` and interval
+ * based intersection of constraints.
+ *
+ * @see https://github.com/composer/semver
+ */
+
+export type Operator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type Constraint =
+  | { type: 'any' }
+  | { type: 'single'; operator: Operator; version: string }
+  | { type: 'and'; constraints: Constraint[] }
+  | { type: 'or'; constraints: Constraint[] };
+
+/**
+ * One end of a version interval. Versions are normalized (`1.2.0.0-dev`).
+ */
+export interface Bound {
+  version: string;
+  inclusive: boolean;
+}
+
+/**
+ * A contiguous range of versions. A null bound is unbounded.
+ */
+export interface Interval {
+  start: Bound | null;
+  end: Bound | null;
+}
+
+export class ConstraintParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConstraintParseError';
+  }
+}
+
+const STABILITIES = 'stable|RC|beta|alpha|dev';
+
+const MODIFIER = '[._-]?(?:(stable|beta|b|RC|alpha|a|patch|pl|p)((?:[.-]?\\d+)*)?)?([.-]?dev)?';
+
+const CLASSICAL_VERSION = new RegExp(`^v?(\\d{1,5})(\\.\\d+)?(\\.\\d+)?(\\.\\d+)?${MODIFIER}$`, 'i');
+
+const DATE_VERSION = new RegExp(`^v?(\\d{4}(?:[.:-]?\\d{2}){1,6}(?:[.:-]?\\d{1,3}){0,2})${MODIFIER}$`, 'i');
+
+/**
+ * Version pattern used inside constraints. Groups: 1-4 numbers, 5 stability,
+ * 6 stability number, 7 dev suffix.
+ */
+const CONSTRAINT_VERSION = `v?(\\d+)(?:\\.(\\d+))?(?:\\.(\\d+))?(?:\\.(\\d+))?${MODIFIER}(?:\\+[^\\s]+)?`;
+
+const TILDE = new RegExp(`^~>?${CONSTRAINT_VERSION}$`, 'i');
+const CARET = new RegExp(`^\\^${CONSTRAINT_VERSION}$`, 'i');
+const X_RANGE = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:\.[xX*])+$/;
+const HYPHEN = new RegExp(`^(${CONSTRAINT_VERSION}) +- +(${CONSTRAINT_VERSION})$`, 'i');
+const COMPARATOR = /^(<>|!=|>=?|<=?|==?)?\s*(.*)$/;
+const AND_SEPARATOR = /(?<!^|as|[=>< ,]) *(?<!-)[, ](?!-)(?! *as\s)/;
+const OR_SEPARATOR = /\s*\|\|?\s*/;
+
+function expandStability(stability: string): string {
+  const lower = stability.toLowerCase();
+  if (lower === 'a') return 'alpha';
+  if (lower === 'b') return 'beta';
+  if (lower === 'p' || lower === 'pl') return 'patch';
+  if (lower === 'rc') return 'RC';
+  return lower;
+}
+
+function normalizeBranch(name: string): string {
+  const trimmed = name.trim();
+  const match = trimmed.match(/^v?(\d+)(\.(?:\d+|[xX*]))?(\.(?:\d+|[xX*]))?(\.(?:\d+|[xX*]))?$/i);
+
+  if (match) {
+    let version = '';
+    for (let i = 1; i < 5; i++) {
+      version += match[i] !== undefined ? match[i]!.replace(/[*X]/g, 'x') : '.x';
+    }
+    return `${version.replace(/x/g, '9999999')}-dev`;
+  }
+
+  return `dev-${trimmed}`;
+}
+
+/**
+ * Normalizes a version the way Composer stores it: four numeric segments
+ * plus an optional stability suffix, or `dev-<name>` for branches.
+ *
+ * @example
+ * normalizeComposerVersion('v1.2')     // '1.2.0.0'
+ * normalizeComposerVersion('2.0.0-b3') // '2.0.0.0-beta3'
+ * normalizeComposerVersion('1.x-dev')  // '1.9999999.9999999.9999999-dev'
+ * @throws ConstraintParseError when the version cannot be parsed
+ */
+export function normalizeComposerVersion(version: string): string {
+  let value = version.trim();
+
+  const alias = value.match(/^([^,\s]+) +as +([^,\s]+)$/);
+  if (alias) value = alias[1]!;
+
+  value = value.replace(new RegExp(`@(?:${STABILITIES})$`, 'i'), '');
+
+  if (value === 'master' || value === 'trunk' || value === 'default') {
+    value = `dev-${value}`;
+  }
+
+  if (value.toLowerCase().startsWith('dev-')) {
+    return `dev-${value.slice(4)}`;
+  }
+
+  const build = value.match(/^([^,\s+]+)\+\S+$/);
+  if (build) value = build[1]!;
+
+  let normalized: string | undefined;
+  let index = 0;
+  let match = value.match(CLASSICAL_VERSION);
+
+  if (match) {
+    normalized = match[1]! + (match[2] || '.0') + (match[3] || '.0') + (match[4] || '.0');
+    index = 5;
+  } else if ((match = value.match(DATE_VERSION))) {
+    normalized = match[1]!.replace(/\D/g, '.');
+    index = 2;
+  }
+
+  if (match && normalized !== undefined) {
+    const stability = match[index];
+    if (stability) {
+      if (stability.toLowerCase() === 'stable') return normalized;
+      normalized += `-${expandStability(stability)}${(match[index + 1] ?? '').replace(/^[.-]+/, '')}`;
+    }
+    if (match[index + 2]) normalized += '-dev';
+    return normalized;
+  }
+
+  const branch = value.match(/^(.*?)[.-]?dev$/i);
+  if (branch) {
+    const normalizedBranch = normalizeBranch(branch[1]!);
+    if (!normalizedBranch.includes('dev-')) return normalizedBranch;
+  }
+
+  throw new ConstraintParseError(`Invalid version string "${version}"`);
+}
+
+/**
+ * Returns the stability of a version, e.g. 'beta' for `2.0.0-beta1`.
+ */
+export function parseStability(version: string): Stability {
+  const lower = version.replace(/#.+$/, '').toLowerCase();
+  if (lower.startsWith('dev-') || lower.endsWith('-dev')) return 'dev';
+
+  const match = lower.match(new RegExp(`${MODIFIER}(?:\\+.*)?$`, 'i'));
+  if (match?.[3]) return 'dev';
+  if (match?.[1] === 'beta' || match?.[1] === 'b') return 'beta';
+  if (match?.[1] === 'alpha' || match?.[1] === 'a') return 'alpha';
+  if (match?.[1] === 'rc') return 'RC';
+  return 'stable';
+}
+
+/**
+ * Increments the segment at `position` (1-4) and zeroes the ones after it.
+ */
+function manipulateVersion(
+  segments: (string | undefined)[],
+  position: number,
+  increment: number = 0,
+): string {
+  const result = [1, 2, 3, 4].map((i) => segments[i] || '0');
+
+  for (let i = 4; i > 0; i--) {
+    if (i > position) {
+      result[i - 1] = '0';
+    } else if (i === position && increment) {
+      result[i - 1] = String(Number(result[i - 1]) + increment);
+    }
+  }
+
+  return result.join('.');
+}
+
+function single(operator: Operator, version: string): Constraint {
+  return { type: 'single', operator, version };
+}
+
+function toOperator(operator: string | undefined): Operator {
+  if (!operator || operator === '=') return '==';
+  if (operator === '<>') return '!=';
+  return operator as Operator;
+}
+
+function parseConstraint(input: string): Constraint[] {
+  let constraint = input.trim();
+  let stabilityModifier: string | undefined;
+
+  const alias = constraint.match(/^([^,\s]+) +as +([^,\s]+)$/);
+  if (alias) constraint = alias[1]!;
+
+  const flag = constraint.match(new RegExp(`^([^,\\s]*?)@(${STABILITIES})$`, 'i'));
+  if (flag) {
+    constraint = flag[1] !== '' ? flag[1]! : '*';
+    if (flag[2]!.toLowerCase() !== 'stable') stabilityModifier = flag[2];
+  }
+
+  const reference = constraint.match(/^(dev-[^,\s@]+?|[^,\s@]+?\.x-dev)#.+$/i);
+  if (reference) constraint = reference[1]!;
+
+  const any = constraint.match(/^(v)?[xX*](\.[xX*])*$/i);
+  if (any) {
+    return any[1] || any[2] ? [single('>=', '0.0.0.0-dev')] : [{ type: 'any' }];
+  }
+
+  const tilde = constraint.match(TILDE);
+  if (tilde) {
+    if (constraint.startsWith('~>')) {
+      throw new ConstraintParseError(
+        `Could not parse version constraint ${input}: invalid operator "~>", you probably meant to use the "~" operator`,
+      );
+    }
+
+    const position = tilde[4] ? 4 : tilde[3] ? 3 : tilde[2] ? 2 : 1;
+    const suffix = !tilde[5] && !tilde[7] ? '-dev' : '';
+    const low = normalizeComposerVersion(constraint.slice(1) + suffix);
+    const high = `${manipulateVersion(tilde, Math.max(1, position - 1), 1)}-dev`;
+
+    return [single('>=', low), single('<', high)];
+  }
+
+  const caret = constraint.match(CARET);
+  if (caret) {
+    let position = 3;
+    if (caret[1] !== '0' || !caret[2]) {
+      position = 1;
+    } else if (caret[2] !== '0' || !caret[3]) {
+      position = 2;
+    }
+
+    const suffix = !caret[5] && !caret[7] ? '-dev' : '';
+    const low = normalizeComposerVersion(constraint.slice(1) + suffix);
+    const high = `${manipulateVersion(caret, position, 1)}-dev`;
+
+    return [single('>=', low), single('<', high)];
+  }
+
+  const xRange = constraint.match(X_RANGE);
+  if (xRange) {
+    const position = xRange[3] ? 3 : xRange[2] ? 2 : 1;
+    const low = `${manipulateVersion(xRange, position)}-dev`;
+    const high = `${manipulateVersion(xRange, position, 1)}-dev`;
+
+    return low === '0.0.0.0-dev' ? [single('<', high)] : [single('>=', low), single('<', high)];
+  }
+
+  const hyphen = constraint.match(HYPHEN);
+  if (hyphen) {
+    // Groups 2-8 belong to the lower version, 10-16 to the upper one
+    const lowSuffix = !hyphen[6] && !hyphen[8] ? '-dev' : '';
+    const low = normalizeComposerVersion(hyphen[1]!) + lowSuffix;
+
+    if ((hyphen[11] && hyphen[12]) || hyphen[14] || hyphen[16]) {
+      return [single('>=', low), single('<=', normalizeComposerVersion(hyphen[9]!))];
+    }
+
+    normalizeComposerVersion(hyphen[9]!);
+    const upper = [undefined, hyphen[10], hyphen[11], hyphen[12], hyphen[13]];
+    const high = `${manipulateVersion(upper, hyphen[11] ? 2 : 1, 1)}-dev`;
+
+    return [single('>=', low), single('<', high)];
+  }
+
+  const comparator = constraint.match(COMPARATOR);
+  if (comparator) {
+    const raw = comparator[2]!;
+    let version: string | undefined;
+
+    try {
+      version = normalizeComposerVersion(raw);
+    } catch {
+      // Recover from constraints like foobar-dev, which should be dev-foobar
+      if (raw.endsWith('-dev') && /^[0-9a-zA-Z-./]+$/.test(raw)) {
+        version = normalizeComposerVersion(`dev-${raw.slice(0, -4)}`);
+      }
+    }
+
+    if (version !== undefined) {
+      const operator = toOperator(comparator[1]);
+
+      if (operator !== '==' && stabilityModifier && parseStability(version) === 'stable') {
+        version += `-${stabilityModifier}`;
+      } else if (operator === '<' || operator === '>=') {
+        const hasModifier = new RegExp(`-${MODIFIER}$`, 'i').test(raw.toLowerCase());
+        if (!hasModifier && !raw.startsWith('dev-')) version += '-dev';
+      }
+
+      return [single(operator, version)];
+    }
+  }
+
+  throw new ConstraintParseError(`Could not parse version constraint ${input}`);
+}
+
+/**
+ * Parses a Composer constraint string. `||` (or `|`) separates alternatives,
+ * commas or spaces separate constraints that must all match.
+ *
+ * @example
+ * parseConstraints('^1.2 || >=2.0, <2.4')
+ * @throws ConstraintParseError when the constraint is invalid
+ */
+export function parseConstraints(constraints: string): Constraint {
+  const groups = constraints
+    .trim()
+    .split(OR_SEPARATOR)
+    .map((orPart): Constraint => {
+      const parsed = orPart.split(AND_SEPARATOR).flatMap(parseConstraint);
+      return parsed.length === 1 ? parsed[0]! : { type: 'and', constraints: parsed };
+    });
+
+  return groups.length === 1 ? groups[0]! : { type: 'or', constraints: groups };
+}
+
+/**
+ * Like {@link parseConstraints}, but returns null for invalid constraints.
+ */
+export function tryParseConstraints(constraints: string): Constraint | null {
+  try {
+    return parseConstraints(constraints);
+  } catch (error) {
+    if (error instanceof ConstraintParseError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Combines constraints that must all match.
+ */
+export function intersection(...constraints: Constraint[]): Constraint {
+  return constraints.length === 1 ? constraints[0]! : { type: 'and', constraints };
+}
+
+/**
+ * Combines constraints of which at least one must match.
+ */
+export function union(...constraints: Constraint[]): Constraint {
+  return constraints.length === 1 ? constraints[0]! : { type: 'or', constraints };
+}
+
+/**
+ * Formats a parsed constraint like Composer does, e.g.
+ * `[>= 1.2.0.0-dev < 2.0.0.0-dev]`.
+ */
+export function constraintToString(constraint: Constraint): string {
+  switch (constraint.type) {
+    case 'any':
+      return '*';
+    case 'single':
+      return `${constraint.operator} ${constraint.version}`;
+    case 'and':
+      return `[${constraint.constraints.map(constraintToString).join(' ')}]`;
+    case 'or':
+      return `[${constraint.constraints.map(constraintToString).join(' || ')}]`;
+  }
+}
+
+const SPECIAL_FORMS: [string, number][] = [
+  ['dev', 0],
+  ['alpha', 1],
+  ['a', 1],
+  ['beta', 2],
+  ['b', 2],
+  ['RC', 3],
+  ['rc', 3],
+  ['#', 4],
+  ['pl', 5],
+  ['p', 5],
+];
+
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= '0' && char <= '9';
+}
+
+function compareSpecialForms(a: string, b: string): number {
+  const order = (form: string) => SPECIAL_FORMS.find(([name]) => form.startsWith(name))?.[1] ?? -1;
+  return Math.sign(order(a) - order(b));
+}
+
+function canonicalizeVersion(version: string): string {
+  let result = version[0]!;
+  let previous = version[0]!;
+
+  for (const char of version.slice(1)) {
+    const separated = result.endsWith('.');
+    const isNonDigit = (value: string) => !isDigit(value) && value !== '.';
+
+    if (char === '-' || char === '_' || char === '+') {
+      if (!separated) result += '.';
+    } else if ((isNonDigit(previous) && isDigit(char)) || (isDigit(previous) && isNonDigit(char))) {
+      if (!separated) result += '.';
+      result += char;
+    } else if (!/[a-z0-9]/i.test(char)) {
+      if (!separated) result += '.';
+    } else {
+      result += char;
+    }
+
+    previous = char;
+  }
+
+  return result;
+}
+
+/**
+ * Compares two versions like PHP's `version_compare`, which Composer uses
+ * for normalized versions: `dev < alpha < beta < RC < release < patch`.
+ *
+ * @returns A negative number if `a` is lower, positive if higher, 0 if equal
+ */
+export function versionCompare(a: string, b: string): number {
+  if (!a || !b) return a ? 1 : b ? -1 : 0;
+
+  const partsA = (a.startsWith('#') ? a : canonicalizeVersion(a)).split('.');
+  const partsB = (b.startsWith('#') ? b : canonicalizeVersion(b)).split('.');
+  const length = Math.min(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const partA = partsA[i]!;
+    const partB = partsB[i]!;
+    let compare: number;
+
+    if (isDigit(partA[0]) && isDigit(partB[0])) {
+      compare = Math.sign(parseInt(partA, 10) - parseInt(partB, 10));
+    } else if (!isDigit(partA[0]) && !isDigit(partB[0])) {
+      compare = compareSpecialForms(partA, partB);
+    } else {
+      compare = isDigit(partA[0]) ? compareSpecialForms('#N#', partB) : compareSpecialForms(partA, '#N#');
+    }
+
+    if (compare !== 0) return compare;
+  }
+
+  if (partsA.length > length) {
+    return isDigit(partsA[length]![0]) ? 1 : versionCompare(partsA.slice(length).join('.'), '#N#');
+  }
+  if (partsB.length > length) {
+    return isDigit(partsB[length]![0]) ? -1 : versionCompare('#N#', partsB.slice(length).join('.'));
+  }
+  return 0;
+}
+
+function compareWith(version: string, operator: Operator, target: string): boolean {
+  const versionIsBranch = version.startsWith('dev-');
+  const targetIsBranch = target.startsWith('dev-');
+
+  if (operator === '!=' && (versionIsBranch || targetIsBranch)) return version !== target;
+  if (versionIsBranch && targetIsBranch) return operator === '==' && version === target;
+  // Branches cannot be ordered, so they never match a comparison
+  if (versionIsBranch || targetIsBranch) return false;
+
+  const compare = versionCompare(version, target);
+  switch (operator) {
+    case '==':
+      return compare === 0;
+    case '!=':
+      return compare !== 0;
+    case '<':
+      return compare < 0;
+    case '<=':
+      return compare <= 0;
+    case '>':
+      return compare > 0;
+    case '>=':
+      return compare >= 0;
+  }
+}
+
+function matchesNormalized(constraint: Constraint, version: string): boolean {
+  switch (constraint.type) {
+    case 'any':
+      return true;
+    case 'single':
+      return compareWith(version, constraint.operator, constraint.version);
+    case 'and':
+      return constraint.constraints.every((part) => matchesNormalized(part, version));
+    case 'or':
+      return constraint.constraints.some((part) => matchesNormalized(part, version));
+  }
+}
+
+/**
+ * Checks whether a version is allowed by a constraint. Versions that cannot
+ * be parsed never match.
+ *
+ * @example
+ * matches(parseConstraints('^1.2'), '1.4.0') // true
+ * matches(parseConstraints('^0.4'), '0.5.0') // false
+ */
+export function matches(constraint: Constraint, version: string): boolean {
+  try {
+    return matchesNormalized(constraint, normalizeComposerVersion(version));
+  } catch (error) {
+    if (error instanceof ConstraintParseError) return false;
+    throw error;
+  }
+}
+
+/**
+ * Branch versions allowed by a constraint: the listed names, or every branch
+ * except the listed names when `exclude` is set.
+ */
+interface BranchSet {
+  names: string[];
+  exclude: boolean;
+}
+
+interface VersionSet {
+  intervals: Interval[];
+  branches: BranchSet;
+}
+
+const NO_BRANCHES: BranchSet = { names: [], exclude: false };
+const ALL_BRANCHES: BranchSet = { names: [], exclude: true };
+
+function compareStarts(a: Bound | null, b: Bound | null): number {
+  if (!a || !b) return (a ? 1 : 0) - (b ? 1 : 0);
+  return versionCompare(a.version, b.version) || Number(b.inclusive) - Number(a.inclusive);
+}
+
+function laterStart(a: Bound | null, b: Bound | null): Bound | null {
+  if (!a || !b) return a ?? b;
+  const compare = versionCompare(a.version, b.version);
+  if (compare !== 0) return compare > 0 ? a : b;
+  return { version: a.version, inclusive: a.inclusive && b.inclusive };
+}
+
+function earlierEnd(a: Bound | null, b: Bound | null): Bound | null {
+  if (!a || !b) return a ?? b;
+  const compare = versionCompare(a.version, b.version);
+  if (compare !== 0) return compare < 0 ? a : b;
+  return { version: a.version, inclusive: a.inclusive && b.inclusive };
+}
+
+function laterEnd(a: Bound | null, b: Bound | null): Bound | null {
+  if (!a || !b) return null;
+  const compare = versionCompare(a.version, b.version);
+  if (compare !== 0) return compare > 0 ? a : b;
+  return { version: a.version, inclusive: a.inclusive || b.inclusive };
+}
+
+function isEmptyInterval({ start, end }: Interval): boolean {
+  if (!start || !end) return false;
+  const compare = versionCompare(start.version, end.version);
+  return compare > 0 || (compare === 0 && !(start.inclusive && end.inclusive));
+}
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals
+    .filter((interval) => !isEmptyInterval(interval))
+    .sort((a, b) => compareStarts(a.start, b.start));
+  const merged: Interval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    const overlaps =
+      last &&
+      (!last.end ||
+        !interval.start ||
+        versionCompare(interval.start.version, last.end.version) < 0 ||
+        (versionCompare(interval.start.version, last.end.version) === 0 &&
+          (interval.start.inclusive || last.end.inclusive)));
+
+    if (last && overlaps) {
+      last.end = laterEnd(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+}
+
+function intersectBranches(a: BranchSet, b: BranchSet): BranchSet {
+  if (a.exclude && b.exclude) return { names: [...new Set([...a.names, ...b.names])], exclude: true };
+  if (a.exclude) return { names: b.names.filter((name) => !a.names.includes(name)), exclude: false };
+  if (b.exclude) return { names: a.names.filter((name) => !b.names.includes(name)), exclude: false };
+  return { names: a.names.filter((name) => b.names.includes(name)), exclude: false };
+}
+
+function unionBranches(a: BranchSet, b: BranchSet): BranchSet {
+  if (a.exclude && b.exclude) return { names: a.names.filter((name) => b.names.includes(name)), exclude: true };
+  if (a.exclude) return { names: a.names.filter((name) => !b.names.includes(name)), exclude: true };
+  if (b.exclude) return { names: b.names.filter((name) => !a.names.includes(name)), exclude: true };
+  return { names: [...new Set([...a.names, ...b.names])], exclude: false };
+}
+
+function singleToSet(operator: Operator, version: string): VersionSet {
+  if (version.startsWith('dev-')) {
+    if (operator === '==') return { intervals: [], branches: { names: [version], exclude: false } };
+    if (operator === '!=') {
+      return { intervals: [{ start: null, end: null }], branches: { names: [version], exclude: true } };
+    }
+    return { intervals: [], branches: NO_BRANCHES };
+  }
+
+  const inclusive = { version, inclusive: true };
+  const exclusive = { version, inclusive: false };
+
+  switch (operator) {
+    case '==':
+      return { intervals: [{ start: inclusive, end: inclusive }], branches: NO_BRANCHES };
+    case '!=':
+      return {
+        intervals: [
+          { start: null, end: exclusive },
+          { start: exclusive, end: null },
+        ],
+        branches: ALL_BRANCHES,
+      };
+    case '<':
+      return { intervals: [{ start: null, end: exclusive }], branches: NO_BRANCHES };
+    case '<=':
+      return { intervals: [{ start: null, end: inclusive }], branches: NO_BRANCHES };
+    case '>':
+      return { intervals: [{ start: exclusive, end: null }], branches: NO_BRANCHES };
+    case '>=':
+      return { intervals: [{ start: inclusive, end: null }], branches: NO_BRANCHES };
+  }
+}
+
+function toVersionSet(constraint: Constraint): VersionSet {
+  switch (constraint.type) {
+    case 'any':
+      return { intervals: [{ start: null, end: null }], branches: ALL_BRANCHES };
+    case 'single':
+      return singleToSet(constraint.operator, constraint.version);
+    case 'and':
+      return constraint.constraints.map(toVersionSet).reduce((a, b) => ({
+        intervals: mergeIntervals(
+          a.intervals.flatMap((left) =>
+            b.intervals.map((right) => ({
+              start: laterStart(left.start, right.start),
+              end: earlierEnd(left.end, right.end),
+            })),
+          ),
+        ),
+        branches: intersectBranches(a.branches, b.branches),
+      }));
+    case 'or':
+      return constraint.constraints.map(toVersionSet).reduce((a, b) => ({
+        intervals: mergeIntervals([...a.intervals, ...b.intervals]),
+        branches: unionBranches(a.branches, b.branches),
+      }));
+  }
+}
+
+/**
+ * Returns the ranges of released versions a constraint allows, sorted and
+ * merged. Branch versions (`dev-main`) are not included.
+ *
+ * @example
+ * getIntervals(parseConstraints('^1.2 || ^2.0'))
+ * // [{ start: { version: '1.2.0.0-dev', inclusive: true }, end: { version: '3.0.0.0-dev', inclusive: false } }]
+ */
+export function getIntervals(constraint: Constraint): Interval[] {
+  return mergeIntervals(toVersionSet(constraint).intervals);
+}
+
+/**
+ * Checks whether a constraint allows at least one version.
+ */
+export function isSatisfiable(constraint: Constraint): boolean {
+  const set = toVersionSet(constraint);
+  return set.intervals.length > 0 || set.branches.exclude || set.branches.names.length > 0;
+}
+
+/**
+ * Checks whether two constraints allow at least one common version.
+ *
+ * @example
+ * intersects(parseConstraints('^1.2'), parseConstraints('>=1.5 <3')) // true
+ * intersects(parseConstraints('^1.2'), parseConstraints('^2.0'))     // false
+ */
+export function intersects(a: Constraint, b: Constraint): boolean {
+  return isSatisfiable(intersection(a, b));
+}
@@ -0,0 +1,43 @@
+import type { PackagistVersion } from '../types';
+
+/**
+ * Marker used by minified metadata for keys removed since the previous version.
+ */
+const UNSET = '__unset';
+
+/**
+ * Value of the `minified` key in responses using Composer's minified format.
+ */
+export const MINIFIED_FORMAT = 'composer/2.0';
+
+/**
+ * Expands Composer's minified p2 metadata, where every version entry only
+ * carries the keys that changed from the entry before it.
+ * Port of Composer's `MetadataMinifier::expand`.
+ *
+ * @see https://github.com/composer/metadata-minifier
+ */
+export function expandMinifiedVersions(versions: PackagistVersion[]): PackagistVersion[] {
+  const expanded: PackagistVersion[] = [];
+  let expandedVersion: Record<string, unknown> | null = null;
+
+  for (const versionData of versions) {
+    if (!expandedVersion) {
+      expandedVersion = { ...versionData };
+      expanded.push(versionData);
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(versionData)) {
+      if (value === UNSET) {
+        delete expandedVersion[key];
+      } else {
+        expandedVersion[key] = value;
+      }
+    }
+
+    expanded.push({ ...expandedVersion } as unknown as PackagistVersion);
+  }
+
+  return expanded;
+}
@@ -1,13 +1,41 @@
 import semver from 'semver';
+import {
+  getIntervals,
+  intersects,
+  matches,
+  normalizeComposerVersion,
+  parseConstraints,
+  tryParseConstraints,
+} from './constraint';
+import { ConstraintRewriteError, formatNewVersion } from './version';
 
 export interface ConstraintCheckResult {
   satisfied: boolean;
   reason?: string;
 }
 
+/**
+ * A version skipped because it requires a newer PHP than the project allows.
+ */
+export interface PhpSkip {
+  name: string;
+  version: string;
+  php: string;
+}
+
+/**
+ * Skipped versions that become installable once PHP is raised to `version`.
+ */
+export interface PhpBump {
+  version: string;
+  packages: PhpSkip[];
+}
+
 /**
  * Normalizes a Composer version constraint to a semver-compatible range.
  * Handles common patterns: ^8.0, >=7.2.5, ^7.0 || ^8.0, >=7.4 <8.4
+ *
+ * @deprecated Approximates Composer semantics; use `parseConstraints` from ./constraint
  */
 export function normalizeComposerConstraint(constraint: string): string {
   if (!constraint) return '*';
@@ -28,27 +56,25 @@ export function normalizeComposerConstraint(constraint: string): string {
   return normalized;
 }
 
+/**
+ * Converts a normalized Composer version to a semver version.
+ *
+ * @example
+ * toSemverVersion('8.1.0.0-dev') // '8.1.0'
+ */
+function toSemverVersion(version: string): string {
+  const [major = '0', minor = '0', patch = '0'] = (version.split('-')[0] ?? '').split('.');
+  return `${Number(major)}.${Number(minor)}.${Number(patch)}`;
+}
+
 /**
  * Extracts the minimum PHP version from a constraint.
  * Used to check if project PHP can satisfy package PHP requirements.
  */
 export function extractMinVersion(constraint: string): string | null {
-  const normalized = normalizeComposerConstraint(constraint);
-  if (normalized === '*') return null;
-
-  const orParts = normalized.split(/\s*\|\|\s*/);
-  let minVersion: string | null = null;
-
-  for (const part of orParts) {
-    const coerced = semver.coerce(part.trim());
-    if (coerced) {
-      if (!minVersion || semver.lt(coerced.version, minVersion)) {
-        minVersion = coerced.version;
-      }
-    }
-  }
-
-  return minVersion;
+  const parsed = tryParseConstraints(constraint);
+  const start = parsed ? getIntervals(parsed)[0]?.start : null;
+  return start ? toSemverVersion(start.version) : null;
 }
 
 /**
@@ -56,26 +82,15 @@ export function extractMinVersion(constraint: string): string | null {
  * Returns null if no upper bound or if constraint allows latest.
  */
 export function extractMaxVersion(constraint: string): string | null {
-  const normalized = normalizeComposerConstraint(constraint);
-  if (normalized === '*') return null;
-
-  const upperBoundMatch = normalized.match(/<(=?)\s*(\d+(?:\.\d+)*)/);
-  if (upperBoundMatch) {
-    const coerced = semver.coerce(upperBoundMatch[2]);
-    return coerced ? coerced.version : null;
-  }
-
-  const caretMatch = normalized.match(/\^(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
-  if (caretMatch) {
-    const major = parseInt(caretMatch[1]!, 10);
-    return `${major + 1}.0.0`;
-  }
-
-  return null;
+  const parsed = tryParseConstraints(constraint);
+  const end = parsed ? getIntervals(parsed).at(-1)?.end : null;
+  return end ? toSemverVersion(end.version) : null;
 }
 
 /**
- * Checks if a project's PHP constraint can satisfy a package's PHP requirement.
+ * Checks if a project's PHP constraint can satisfy a package's PHP requirement,
+ * i.e. whether the package allows the lowest PHP version the project allows.
+ * Constraints that cannot be parsed are assumed to be compatible.
  *
  * @param projectPhp - PHP constraint from project's composer.json (e.g., "^8.3")
  * @param packagePhp - PHP constraint required by package (e.g., "^7.2.5 || ^8.0")
@@ -88,65 +103,219 @@ export function checkPhpCompatibility(
   if (!packagePhp || packagePhp === '*') return { satisfied: true };
   if (!projectPhp) return { satisfied: true };
 
+  const project = tryParseConstraints(projectPhp);
+  const required = tryParseConstraints(packagePhp);
+  if (!project || !required) return { satisfied: true };
+
+  const lowest = getIntervals(project)[0]?.start;
+  if (!lowest) return { satisfied: true };
+
+  if (matches(required, lowest.version.replace(/-dev$/, ''))) return { satisfied: true };
+
+  return { satisfied: false, reason: `requires php ${packagePhp}` };
+}
+
+/**
+ * Computes the lowest PHP versions that unlock versions skipped for PHP.
+ * Each bump lists the packages it unlocks on top of the lower bumps, so the
+ * last bump is the lowest PHP version satisfying every skipped version.
+ * Skipped versions whose requirement does not start above the project
+ * minimum (e.g. an upper bound the project already exceeds) are ignored.
+ *
+ * @example
+ * suggestPhpBumps('^8.1', [{ name: 'a/b', version: '2.0.0', php: '>=8.2' }])
+ * // [{ version: '8.2', packages: [{ name: 'a/b', ... }] }]
+ */
+export function suggestPhpBumps(projectPhp: string, skipped: PhpSkip[]): PhpBump[] {
   const projectMin = extractMinVersion(projectPhp);
-  if (!projectMin) return { satisfied: true };
-
-  const packageNorm = normalizeComposerConstraint(packagePhp);
-  const packageParts = packageNorm.split(/\s*\|\|\s*/).filter((p) => p.trim());
-
-  for (const part of packageParts) {
-    const partMax = extractMaxVersion(part);
-    if (partMax && semver.gte(projectMin, partMax)) continue;
-
-    try {
-      const range = semver.validRange(part.trim());
-      if (range && semver.satisfies(projectMin, range)) return { satisfied: true };
-    } catch {}
-
-    const partMin = extractMinVersion(part);
-    if (partMin) {
-      const partMajor = semver.major(partMin);
-      const projectMajor = semver.major(projectMin);
-
-      if (part.trim().startsWith('^')) {
-        if (projectMajor === partMajor && semver.gte(projectMin, partMin)) {
-          return { satisfied: true };
-        }
-      } else if (semver.gte(projectMin, partMin) && !partMax) {
-        return { satisfied: true };
-      }
-    }
+  if (!projectMin) return [];
+
+  const bumps = new Map<string, PhpSkip[]>();
+
+  for (const skip of skipped) {
+    const min = extractMinVersion(skip.php);
+    if (!min || semver.lte(min, projectMin)) continue;
+
+    const version = min.replace(/\.0$/, '');
+    if (!checkPhpCompatibility(`>=${version}`, skip.php).satisfied) continue;
+
+    bumps.set(version, [...(bumps.get(version) ?? []), skip]);
   }
 
-  return { satisfied: false, reason: `requires php ${packagePhp}` };
+  return [...bumps.entries()]
+    .sort(([a], [b]) => semver.compare(semver.coerce(a)!, semver.coerce(b)!))
+    .map(([version, packages]) => ({ version, packages }));
+}
+
+/**
+ * Formats the `require.php` constraint raising the project to a PHP version,
+ * in the style of the current constraint. Constraints that cannot be
+ * rewritten safely are replaced with a plain lower bound.
+ *
+ * @example
+ * formatPhpBump('^8.1', '8.2')  // '^8.2'
+ * formatPhpBump('>=8.1 <8.4 !=8.2.0', '8.2')  // '>=8.2'
+ */
+export function formatPhpBump(projectPhp: string, version: string): string {
+  try {
+    return formatNewVersion(projectPhp, version);
+  } catch (error) {
+    if (error instanceof ConstraintRewriteError) return `>=${version}`;
+    throw error;
+  }
 }
 
 /**
  * Checks if a constraint is satisfied by a version.
  * Used for checking if installed package versions satisfy upgrade requirements.
+ * Versions that cannot be parsed are assumed to satisfy the constraint,
+ * invalid constraints are never satisfied.
  */
 export function isConstraintSatisfied(version: string, constraint: string): boolean {
   if (!constraint || constraint === '*') return true;
 
-  const normalized = normalizeComposerConstraint(constraint);
-  const coercedVersion = semver.coerce(version);
-  if (!coercedVersion) return true;
-
-  const parts = normalized.split(/\s*\|\|\s*/);
-
-  for (const part of parts) {
-    try {
-      const range = semver.validRange(part.trim());
-      if (range && semver.satisfies(coercedVersion.version, range)) return true;
-    } catch {
-      const partCoerced = semver.coerce(part);
-      if (partCoerced) {
-        const partMajor = semver.major(partCoerced.version);
-        const versionMajor = semver.major(coercedVersion.version);
-        if (part.startsWith('^') && versionMajor === partMajor) return true;
-      }
+  try {
+    normalizeComposerVersion(version);
+  } catch {
+    return true;
+  }
+
+  const parsed = tryParseConstraints(constraint);
+  return parsed ? matches(parsed, version) : false;
+}
+
+/**
+ * PHP minor versions considered when deriving a compatibility matrix from a constraint.
+ */
+export const KNOWN_PHP_VERSIONS = [
+  '5.6',
+  '7.0',
+  '7.1',
+  '7.2',
+  '7.3',
+  '7.4',
+  '8.0',
+  '8.1',
+  '8.2',
+  '8.3',
+  '8.4',
+  '8.5',
+];
+
+/**
+ * Checks whether a constraint allows at least one release of a PHP minor version.
+ *
+ * @example
+ * allowsPhpMinor('^8.1', '8.4')    // true
+ * allowsPhpMinor('>=7.4 <8.4', '8.4') // false
+ */
+export function allowsPhpMinor(constraint: string | undefined, minor: string): boolean {
+  if (!constraint) return true;
+
+  const parsed = tryParseConstraints(constraint);
+  return parsed ? intersects(parsed, parseConstraints(`~${minor}.0`)) : true;
+}
+
+/**
+ * Returns the known PHP minor versions a constraint allows.
+ *
+ * @example
+ * getCoveredPhpVersions('^8.1') // ['8.1', '8.2', '8.3', '8.4', '8.5']
+ */
+export function getCoveredPhpVersions(constraint: string): string[] {
+  return KNOWN_PHP_VERSIONS.filter((minor) => allowsPhpMinor(constraint, minor));
+}
+
+/**
+ * Returns the PHP minor versions the current release of a package supports
+ * but the update no longer does, limited to the versions the project allows.
+ *
+ * @example
+ * getDroppedPhpVersions('>=8.1', '>=8.2', ['8.1', '8.2']) // ['8.1']
+ */
+export function getDroppedPhpVersions(
+  currentPhp: string | undefined,
+  updatePhp: string | undefined,
+  covered: string[],
+): string[] {
+  return covered.filter(
+    (minor) => allowsPhpMinor(currentPhp, minor) && !allowsPhpMinor(updatePhp, minor),
+  );
+}
+
+/**
+ * Parses a comma-separated list of PHP versions such as "8.1,8.2".
+ *
+ * @returns Versions reduced to major.minor, or null when an entry is invalid
+ */
+export function parsePhpVersionList(value: string): string[] | null {
+  const versions: string[] = [];
+
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^(\d+)\.(\d+)(?:\.\d+)?$/);
+    if (!match) return null;
+    versions.push(`${match[1]}.${match[2]}`);
+  }
+
+  return versions.length > 0 ? [...new Set(versions)] : null;
+}
+
+/**
+ * Evaluates a package's PHP requirement against each PHP minor version.
+ */
+export function getPhpMatrix(
+  packagePhp: string | undefined,
+  versions: string[],
+): Record<string, boolean> {
+  return Object.fromEntries(versions.map((minor) => [minor, allowsPhpMinor(packagePhp, minor)]));
+}
+
+/**
+ * Extensions compiled into every PHP build, which projects never declare.
+ */
+const CORE_EXTENSIONS = new Set([
+  'ext-core',
+  'ext-date',
+  'ext-hash',
+  'ext-json',
+  'ext-pcre',
+  'ext-random',
+  'ext-reflection',
+  'ext-spl',
+  'ext-standard',
+]);
+
+/**
+ * Checks the `ext-*` and `lib-*` requirements of a package version against
+ * the extensions available to the project. Extensions declared with an exact
+ * version (e.g. from `config.platform`) must satisfy the requirement; `lib-*`
+ * packages the project does not declare are assumed to be present.
+ *
+ * @param requires - `require` map of the package version
+ * @param extensions - Available extensions keyed by lowercase name
+ * @returns Result with the first missing or incompatible extension as reason
+ */
+export function checkPlatformRequirements(
+  requires: Record<string, string> | undefined,
+  extensions: Record<string, string>,
+): ConstraintCheckResult {
+  for (const [name, constraint] of Object.entries(requires ?? {})) {
+    const key = name.toLowerCase();
+    const isExtension = key.startsWith('ext-');
+    if (!isExtension && !key.startsWith('lib-')) continue;
+    if (CORE_EXTENSIONS.has(key)) continue;
+
+    const available = extensions[key];
+    if (available === undefined) {
+      if (isExtension) return { satisfied: false, reason: key };
+      continue;
+    }
+
+    const isExactVersion = /^v?\d+(\.\d+)*$/.test(available.trim());
+    if (isExactVersion && !isConstraintSatisfied(available, constraint)) {
+      return { satisfied: false, reason: key };
     }
   }
 
-  return false;
+  return { satisfied: true };
 }
@@ -0,0 +1,26 @@
+/**
+ * Runs `worker` over all items with at most `concurrency` calls in flight.
+ * A new item starts as soon as any running call settles, so one slow item
+ * never holds back the rest of the queue.
+ *
+ * @param items - Items to process, started in order
+ * @param concurrency - Maximum number of concurrent calls (at least 1)
+ * @param worker - Async function called once per item; it should not reject
+ */
+export async function runPool<T>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index]!, index);
+    }
+  };
+
+  const size = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: size }, runWorker));
+}
@@ -44,3 +44,23 @@ export function getAgeMonths(isoDate: string): number {
   const msPerMonth = 30 * 24 * 60 * 60 * 1000;
   return Math.floor(diffMs / msPerMonth);
 }
+
+/**
+ * Parses a short duration such as "30 d", "12h" or "2w" into milliseconds.
+ * Accepts the same units that `formatAge` produces.
+ *
+ * @returns Duration in milliseconds, or null if the input is not a valid duration
+ *
+ * @example
+ * parseDuration('3d') // 259200000
+ */
+export function parseDuration(input: string): number | null {
+  const match = input.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)$/i);
+  if (!match) return null;
+
+  const value = Number(match[1]);
+  const short = match[2]!.toLowerCase();
+  const unit = UNITS.find((u) => u.short === short);
+
+  return unit ? value * unit.ms : null;
+}
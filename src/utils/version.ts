@@ -1,6 +1,7 @@
 import semver from 'semver';
-import type { Stability } from '../types';
+import type { RangeStrategy, Stability } from '../types';
 import { STABILITY_ORDER } from '../types';
+import { intersects, matches, parseStability, tryParseConstraints } from './constraint';
 
 export type ConstraintType = 'exact' | 'range' | 'hyphen' | 'wildcard' | 'tilde' | 'caret' | 'dev';
 
@@ -111,6 +112,54 @@ function hasDevSuffix(version: string): boolean {
   );
 }
 
+/**
+ * Returns the branch version a dev constraint points at, as it is listed in
+ * package metadata. Inline aliases, commit references and stability flags are
+ * stripped.
+ *
+ * @example
+ * getBranchVersion('dev-main as 1.0.x-dev') // 'dev-main'
+ * getBranchVersion('2.x-dev#abc123')       // '2.x-dev'
+ * getBranchVersion('^2.0')                 // null
+ */
+export function getBranchVersion(constraint: string): string | null {
+  const branch = (constraint.split(' as ')[0] ?? '')
+    .trim()
+    .replace(/#.*$/, '')
+    .replace(/@(dev|alpha|beta|rc|stable)$/i, '');
+
+  if (branch.startsWith('dev-') || branch.toLowerCase().endsWith('-dev')) {
+    return branch;
+  }
+
+  return null;
+}
+
+/**
+ * Extracts the numeric release line from a branch version or branch alias.
+ *
+ * @example
+ * getBranchLine('3.1.x-dev') // '3.1'
+ * getBranchLine('2.x-dev')   // '2'
+ * getBranchLine('dev-main')  // null
+ */
+export function getBranchLine(branch: string): string | null {
+  const match = branch.match(/^v?(\d+(?:\.\d+)*)(?:\.x)?-dev$/i);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Checks whether a released version belongs to a branch line or a later
+ * release within the same major version.
+ */
+export function isOnBranchLine(version: string, line: string): boolean {
+  const normalized = normalizeVersion(version);
+  if (!normalized) return false;
+
+  const [major = 0, minor = 0, patch = 0] = line.split('.').map(Number);
+  return semver.major(normalized) === major && semver.gte(normalized, `${major}.${minor}.${patch}`);
+}
+
 /**
  * Normalizes a version string by removing 'v' prefix and stability flags.
  */
@@ -180,6 +229,51 @@ export function meetsStabilityRequirement(
   return versionLevel >= minLevel;
 }
 
+const STABILITY_FLAG = /@(stable|rc|beta|alpha|dev)$/i;
+
+function toStability(flag: string): Stability {
+  const lower = flag.toLowerCase();
+  return lower === 'rc' ? 'RC' : (lower as Stability);
+}
+
+/**
+ * Resolves the stability a required package is resolved with, following
+ * Composer's rules for root requirements: an inline flag (`^2.0@beta`)
+ * replaces `minimum-stability` for the package, and an unstable version
+ * (`2.0.0-beta1`) lowers it to that version's stability. With several
+ * alternatives the least stable one wins.
+ *
+ * @example
+ * getPackageStability('^2.0@beta', 'stable')   // 'beta'
+ * getPackageStability('^2.0@stable', 'dev')    // 'stable'
+ * getPackageStability('2.0.0-RC1', 'stable')   // 'RC'
+ * getPackageStability('^2.0', 'beta')          // 'beta'
+ */
+export function getPackageStability(constraint: string, minStability: Stability): Stability {
+  const parts = constraint.trim().split(/\s*\|\|?\s*/);
+  const leastStable = (stabilities: Stability[]) =>
+    stabilities.reduce((a, b) => (STABILITY_ORDER[b] < STABILITY_ORDER[a] ? b : a));
+
+  const flags = parts.flatMap((part) => {
+    const flag = part.match(STABILITY_FLAG)?.[1];
+    return flag ? [toStability(flag)] : [];
+  });
+  if (flags.length > 0) return leastStable(flags);
+
+  const implied = parts.flatMap((part) => {
+    const version = part.replace(/^(\S+) as .+$/, '$1');
+    return /^[^,\s@]+$/.test(version) ? [parseStability(version)] : [];
+  });
+  return leastStable([minStability, ...implied]);
+}
+
+/**
+ * Returns the inline stability flag of a constraint, e.g. '@beta' for `^2.0@beta`.
+ */
+function getStabilityFlag(constraint: string): string {
+  return constraint.trim().match(STABILITY_FLAG)?.[0] ?? '';
+}
+
 /**
  * Normalizes a constraint to a clean semver version for comparison.
  * Returns null for dev versions that cannot be compared.
@@ -195,9 +289,52 @@ export function normalizeVersion(version: string): string | null {
   return coerced ? coerced.version : null;
 }
 
+/**
+ * Compares two package versions, ordering by version number and then by
+ * stability. Branch versions that cannot be compared sort before releases.
+ *
+ * @returns A negative number if `a` is lower, positive if higher, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const normA = normalizeVersion(a);
+  const normB = normalizeVersion(b);
+
+  if (!normA || !normB) {
+    return (normA ? 1 : 0) - (normB ? 1 : 0);
+  }
+
+  const diff = semver.compare(normA, normB);
+  if (diff !== 0) return diff;
+
+  return STABILITY_ORDER[getVersionStability(a)] - STABILITY_ORDER[getVersionStability(b)];
+}
+
+/**
+ * Returns the release line a version belongs to under caret semantics:
+ * the major for 1.x and above, `0.y` for 0.x and `0.0.z` for 0.0.x.
+ *
+ * @example
+ * getMajorLine('2.3.1')  // '2'
+ * getMajorLine('0.4.2')  // '0.4'
+ * getMajorLine('0.0.3')  // '0.0.3'
+ */
+export function getMajorLine(version: string): string | null {
+  const normalized = normalizeVersion(version);
+  if (!normalized) return null;
+
+  const { major, minor, patch } = semver.parse(normalized)!;
+  if (major > 0) return `${major}`;
+  if (minor > 0) return `0.${minor}`;
+  return `0.0.${patch}`;
+}
+
 /**
  * Determines the type of version change between two versions.
  *
+ * Below 1.0 a new release line is breaking (`^0.4` excludes 0.5.0 and `^0.0.3`
+ * excludes 0.0.4), so such changes are reported as 'major' unless the current
+ * constraint already allows the latest version.
+ *
  * @returns 'major', 'minor', 'patch', or null if no update needed
  */
 export function getDiffType(
@@ -211,6 +348,14 @@ export function getDiffType(
 
   try {
     if (semver.major(latest) > semver.major(current)) return 'major';
+    if (
+      semver.major(current) === 0 &&
+      semver.gt(latest, current) &&
+      getMajorLine(current) !== getMajorLine(latest)
+    ) {
+      const constraint = tryParseConstraints(currentVersion);
+      if (!constraint || !matches(constraint, latestVersion)) return 'major';
+    }
     if (semver.minor(latest) > semver.minor(current)) return 'minor';
     if (semver.patch(latest) > semver.patch(current)) return 'patch';
   } catch {
@@ -226,15 +371,22 @@ export function getDiffType(
  * @example
  * formatNewVersion('^1.0', '1.5.0')  // '^1.5.0'
  * formatNewVersion('~1.2', '1.3.0')  // '~1.3.0'
+ * formatNewVersion('^2.0@beta', '2.1.0-beta2')  // '^2.1.0-beta2@beta'
  */
 export function formatNewVersion(originalConstraint: string, newVersion: string): string {
   const parsed = parseConstraint(originalConstraint);
-  const cleaned = newVersion.replace(/^v/i, '');
 
   if (parsed.type === 'dev') {
     return originalConstraint;
   }
 
+  const flag = getStabilityFlag(originalConstraint);
+  if (flag) {
+    return `${formatNewVersion(originalConstraint.trim().slice(0, -flag.length), newVersion)}${flag}`;
+  }
+
+  const cleaned = newVersion.replace(/^v/i, '');
+
   if (parsed.type === 'wildcard') {
     const coerced = semver.coerce(cleaned);
     if (coerced) {
@@ -249,17 +401,230 @@ export function formatNewVersion(originalConstraint: string, newVersion: string)
   }
 
   if (parsed.type === 'hyphen') {
-    const startPart = (originalConstraint.split(' - ')[0] ?? '').trim();
-    return `${startPart} - ${cleaned}`;
+    return checkRewrite(originalConstraint, rewriteHyphenRange(originalConstraint, cleaned), cleaned);
   }
 
   if (parsed.type === 'range') {
-    const updatedConstraint = originalConstraint.replace(
-      /([><!=]+\s*)v?\d+(?:\.\d+)*(?:-[\w.]+)?/i,
-      `$1${cleaned}`,
-    );
-    return updatedConstraint || originalConstraint;
+    return checkRewrite(originalConstraint, rewriteRange(originalConstraint, cleaned), cleaned);
   }
 
   return `${parsed.prefix}${cleaned}`;
 }
+
+/**
+ * Thrown when a constraint cannot be rewritten for a new version without
+ * producing an empty range or one narrower than the original.
+ */
+export class ConstraintRewriteError extends Error {
+  constructor(
+    readonly constraint: string,
+    readonly version: string,
+    reason: string,
+  ) {
+    super(`cannot rewrite ${constraint} for ${version}: ${reason}`);
+    this.name = 'ConstraintRewriteError';
+  }
+}
+
+const COMPARISON = /([<>]=?|!=|==?)(\s*)(v?\d+(?:\.\d+)*(?:-[\w.]+)?)/gi;
+
+/**
+ * Returns the first version of the release line after the one `version`
+ * belongs to, padded to `segments` parts.
+ *
+ * @example
+ * getNextLineBoundary('2.1.0', 2)  // '3.0'
+ * getNextLineBoundary('0.5.2', 2)  // '0.6'
+ */
+function getNextLineBoundary(version: string, segments: number): string {
+  const line = (getMajorLine(version) ?? version).split('.').map(Number);
+  line[line.length - 1]! += 1;
+  while (line.length < segments) line.push(0);
+  return line.join('.');
+}
+
+/**
+ * Rewrites an explicit range such as `>=1.4 <2.0` or `>=1.4, <2.0`: the lower
+ * bound becomes the new version and the upper bound moves to the next release
+ * line boundary when it excludes the new version. `!=` exclusions are kept.
+ */
+function rewriteRange(constraint: string, version: string): string {
+  const comparisons = [...constraint.matchAll(COMPARISON)];
+  const rest = constraint.replace(COMPARISON, '').replace(/[\s,]/g, '');
+  if (rest) {
+    throw new ConstraintRewriteError(constraint, version, 'only comparisons can be rewritten');
+  }
+
+  const lower = comparisons.filter(([, operator]) => operator!.startsWith('>'));
+  const upper = comparisons.filter(([, operator]) => operator!.startsWith('<'));
+  if (comparisons.some(([, operator]) => operator!.startsWith('='))) {
+    throw new ConstraintRewriteError(constraint, version, 'it pins an exact version');
+  }
+  if (lower.length > 1 || upper.length > 1) {
+    throw new ConstraintRewriteError(constraint, version, 'it has more than one lower or upper bound');
+  }
+
+  return constraint.replace(COMPARISON, (match, operator: string, space: string, bound: string) => {
+    if (operator.startsWith('>')) return `>=${space}${version}`;
+    if (operator.startsWith('<') && !allows(match, version)) {
+      const segments = bound.replace(/^v/i, '').replace(/-.*$/, '').split('.').length;
+      return `<${space}${getNextLineBoundary(version, segments)}`;
+    }
+    if (operator === '!=' && !allows(match, version)) {
+      throw new ConstraintRewriteError(constraint, version, `it excludes ${version}`);
+    }
+    return match;
+  });
+}
+
+/**
+ * Rewrites a hyphen range such as `1.0 - 2.0`: the start becomes the new
+ * version and the end widens to the new version's release line (`2.5.0 - 2`)
+ * when it excludes the new version.
+ */
+function rewriteHyphenRange(constraint: string, version: string): string {
+  const end = (constraint.split(' - ')[1] ?? '').trim();
+  const rewritten = `${version} - ${end}`;
+  return allows(rewritten, version) ? rewritten : `${version} - ${getMajorLine(version) ?? version}`;
+}
+
+/**
+ * Refuses rewrites that leave the constraint unparsable, empty or excluding
+ * the new version.
+ */
+function checkRewrite(constraint: string, rewritten: string, version: string): string {
+  const parsed = tryParseConstraints(rewritten);
+  if (!parsed) {
+    throw new ConstraintRewriteError(constraint, version, `${rewritten} is not a valid constraint`);
+  }
+  if (!matches(parsed, version)) {
+    throw new ConstraintRewriteError(constraint, version, `${rewritten} would not allow ${version}`);
+  }
+  return rewritten;
+}
+
+function splitAlternatives(constraint: string): { parts: string[]; separator: string } {
+  const separator = constraint.match(/\s*\|\|?\s*/)?.[0] ?? ' || ';
+  return { parts: constraint.trim().split(/\s*\|\|?\s*/), separator };
+}
+
+function allows(constraint: string, version: string): boolean {
+  const parsed = tryParseConstraints(constraint);
+  return parsed !== null && matches(parsed, version);
+}
+
+/**
+ * Raises the lower bound of a single constraint to a version it already
+ * allows. Tilde constraints keep their precision so the upper bound stays put.
+ */
+function bumpFloor(constraint: string, version: string): string {
+  const flag = getStabilityFlag(constraint);
+  if (flag) return `${bumpFloor(constraint.slice(0, -flag.length), version)}${flag}`;
+
+  const parsed = parseConstraint(constraint);
+
+  switch (parsed.type) {
+    case 'tilde': {
+      const segments = parsed.baseVersion.split('.').length;
+      return `~${version.split('.').slice(0, Math.max(segments, 2)).join('.')}`;
+    }
+    case 'range':
+      return constraint.startsWith('>') ? formatNewVersion(constraint, version) : constraint;
+    case 'caret':
+    case 'hyphen':
+    case 'wildcard':
+      return formatNewVersion(constraint, version);
+    default:
+      return constraint;
+  }
+}
+
+/**
+ * Adds the release line of a new version as an alternative, styled after the
+ * last alternative of the constraint.
+ */
+function widenConstraint(parts: string[], separator: string, version: string): string {
+  const line = getMajorLine(version);
+  if (!line) return parts.join(separator);
+
+  const floor = line.includes('.') ? line : `${line}.0`;
+  const template = parts[parts.length - 1] ?? '';
+  const type = parseConstraint(template).type;
+  let alternative = `^${floor}`;
+  if (type === 'caret' || type === 'tilde') alternative = formatNewVersion(template, floor);
+  if (type === 'wildcard') alternative = formatNewVersion(template, version);
+
+  return [...parts, alternative].join(separator);
+}
+
+/**
+ * Rewrites a constraint for a new version according to a range strategy.
+ * Constraints with several alternatives (`^1.0 || ^2.0`) are rewritten per
+ * alternative: `replace` keeps the style of the alternative allowing the new
+ * version (or the last one), `bump` only raises that alternative.
+ *
+ * @example
+ * updateConstraint('^1.0', '2.1.0', 'replace')          // '^2.1.0'
+ * updateConstraint('^1.0 || ^2.0', '3.1.0', 'widen')    // '^1.0 || ^2.0 || ^3.0'
+ * updateConstraint('^1.0 || ^2.0', '2.3.0', 'bump')     // '^1.0 || ^2.3.0'
+ * updateConstraint('^1.0', '2.1.0', 'bump')             // '^1.0'
+ */
+export function updateConstraint(
+  originalConstraint: string,
+  newVersion: string,
+  strategy: RangeStrategy = 'replace',
+): string {
+  if (strategy === 'keep') return originalConstraint;
+
+  const version = newVersion.replace(/^v/i, '');
+  const { parts, separator } = splitAlternatives(originalConstraint);
+  const releaseParts = parts.filter((part) => parseConstraint(part).type !== 'dev');
+  if (releaseParts.length === 0) return originalConstraint;
+  const matching = parts.findLastIndex(
+    (part) => parseConstraint(part).type !== 'dev' && allows(part, version),
+  );
+
+  switch (strategy) {
+    case 'widen':
+      if (!tryParseConstraints(originalConstraint)) return originalConstraint;
+      return matching === -1 ? widenConstraint(parts, separator, version) : originalConstraint;
+    case 'bump':
+      if (matching === -1) return originalConstraint;
+      return parts
+        .map((part, index) => (index === matching ? bumpFloor(part, version) : part))
+        .join(separator);
+    case 'replace': {
+      if (parts.length === 1) return formatNewVersion(originalConstraint, newVersion);
+      const template = matching === -1 ? releaseParts[releaseParts.length - 1] : parts[matching];
+      return template ? formatNewVersion(template, newVersion) : originalConstraint;
+    }
+  }
+}
+
+/**
+ * Checks a rewritten constraint before it is written: it must be valid, allow
+ * the version it was rewritten for and not newly allow releases beyond that
+ * version's release line. Unchanged constraints are not checked.
+ *
+ * @returns Why the rewrite is unsafe, or null when it can be written
+ */
+export function validateConstraintUpdate(
+  original: string,
+  rewritten: string,
+  version: string,
+): string | null {
+  if (rewritten === original) return null;
+
+  const parsed = tryParseConstraints(rewritten);
+  if (!parsed) return `${rewritten} is not a valid constraint`;
+  if (!matches(parsed, version)) return `${rewritten} does not allow ${version}`;
+
+  const boundary = getNextLineBoundary(version.replace(/^v/i, ''), 2);
+  const beyond = tryParseConstraints(`>=${boundary}`);
+  const before = tryParseConstraints(original);
+  if (beyond && intersects(parsed, beyond) && !(before && intersects(before, beyond))) {
+    return `${rewritten} would also allow ${boundary} and later`;
+  }
+
+  return null;
+}
@@ -4,7 +4,9 @@ import { spawn } from 'child_process';
 import { basename, dirname, join } from 'path';
 import detectIndent from 'detect-indent';
 import type { PackageInfo, ComposerJson } from './types';
-import { formatNewVersion } from './utils/version';
+import pc from 'picocolors';
+import { ConstraintRewriteError, updateConstraint, validateConstraintUpdate } from './utils/version';
+import { extractMinVersion } from './utils/php';
 
 /**
  * Reads and parses composer.json, detecting indentation style.
@@ -26,6 +28,11 @@ export async function readComposerJson(path: string): Promise<{
   }
 }
 
+export interface WriteOptions {
+  /** New `require.php` constraint */
+  php?: string;
+}
+
 /**
  * Writes updates to composer.json while preserving formatting.
  */
@@ -33,27 +40,69 @@ export async function writeComposerJson(
   path: string,
   updates: PackageInfo[],
   dryRun: boolean = false,
+  options: WriteOptions = {},
 ): Promise<boolean> {
   const result = await readComposerJson(path);
   if (!result) return false;
 
   const { content, indent } = result;
+  const currentPhp = content.require?.php;
 
+  const unchanged = new Set<string>();
+  const refused: { name: string; error: ConstraintRewriteError }[] = [];
+  const violations: { name: string; from: string; to: string; reason: string }[] = [];
+
+  if (options.php) {
+    const from = currentPhp ?? '';
+    const reason = validateConstraintUpdate(from, options.php, extractMinVersion(options.php) ?? '');
+    if (reason) violations.push({ name: 'php', from: from || '(none)', to: options.php, reason });
+    content.require = { ...content.require, php: options.php };
+  }
   for (const pkg of updates) {
-    const requireVersion = content.require?.[pkg.name];
-    if (requireVersion !== undefined) {
-      content.require![pkg.name] = formatNewVersion(requireVersion, pkg.latestVersion);
+    for (const section of ['require', 'require-dev'] as const) {
+      const constraint = content[section]?.[pkg.name];
+      if (constraint === undefined) continue;
+
+      try {
+        const updated = updateConstraint(constraint, pkg.latestVersion, pkg.rangeStrategy);
+        if (updated === constraint) unchanged.add(pkg.name);
+        content[section]![pkg.name] = updated;
+
+        const reason = validateConstraintUpdate(constraint, updated, pkg.latestVersion);
+        if (reason) violations.push({ name: pkg.name, from: constraint, to: updated, reason });
+      } catch (error) {
+        if (!(error instanceof ConstraintRewriteError)) throw error;
+        unchanged.add(pkg.name);
+        refused.push({ name: pkg.name, error });
+      }
     }
-    const devVersion = content['require-dev']?.[pkg.name];
-    if (devVersion !== undefined) {
-      content['require-dev']![pkg.name] = formatNewVersion(devVersion, pkg.latestVersion);
+  }
+
+  if (violations.length > 0) {
+    console.log(pc.red('\n  ✗ Not writing composer.json, unsafe constraint rewrites:'));
+    for (const { name, from, to, reason } of violations) {
+      console.log(`    ${pc.bold(name)} ${from} → ${to}: ${reason}`);
     }
+    console.log('');
+    return false;
+  }
+
+  if (refused.length > 0) {
+    console.log(pc.yellow('\n  Constraints kept because they cannot be rewritten safely:'));
+    for (const { name, error } of refused) {
+      console.log(`    ${pc.bold(name)} ${error.message}`);
+    }
+    console.log('');
   }
 
   if (dryRun) {
     console.log('\n  [dry-run] Would write the following changes:\n');
+    if (options.php) {
+      console.log(`    php: ${currentPhp ?? '(none)'} → ${options.php}`);
+    }
     for (const pkg of updates) {
-      console.log(`    ${pkg.name}: ${pkg.currentVersion} → ${pkg.latestVersion}`);
+      const note = unchanged.has(pkg.name) ? ' (constraint kept)' : '';
+      console.log(`    ${pkg.name}: ${pkg.currentVersion} → ${pkg.latestVersion}${note}`);
     }
     console.log('');
     return true;
@@ -0,0 +1,120 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { getAuthHeaders, getComposerHome, loadComposerAuth } from '../src/auth';
+
+describe('loadComposerAuth', () => {
+  const originalHome = process.env.COMPOSER_HOME;
+  const originalAuth = process.env.COMPOSER_AUTH;
+
+  let composerHome: string;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    composerHome = await mkdtemp(path.join(os.tmpdir(), 'comze-auth-home-'));
+    projectDir = await mkdtemp(path.join(os.tmpdir(), 'comze-auth-project-'));
+    process.env.COMPOSER_HOME = composerHome;
+    delete process.env.COMPOSER_AUTH;
+  });
+
+  afterEach(async () => {
+    if (originalHome === undefined) delete process.env.COMPOSER_HOME;
+    else process.env.COMPOSER_HOME = originalHome;
+    if (originalAuth === undefined) delete process.env.COMPOSER_AUTH;
+    else process.env.COMPOSER_AUTH = originalAuth;
+
+    await rm(composerHome, { recursive: true, force: true });
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  test('uses COMPOSER_HOME when set', () => {
+    expect(getComposerHome()).toBe(composerHome);
+  });
+
+  test('returns empty config when no sources exist', async () => {
+    expect(await loadComposerAuth(projectDir)).toEqual({});
+  });
+
+  test('merges global, project and environment credentials in order', async () => {
+    await writeFile(
+      path.join(composerHome, 'auth.json'),
+      JSON.stringify({
+        bearer: { 'global.example.com': 'global-token', 'shared.example.com': 'global' },
+      }),
+    );
+    await writeFile(
+      path.join(projectDir, 'auth.json'),
+      JSON.stringify({
+        bearer: { 'shared.example.com': 'project' },
+        'http-basic': { 'satis.example.com': { username: 'user', password: 'secret' } },
+      }),
+    );
+    process.env.COMPOSER_AUTH = JSON.stringify({
+      'http-basic': { 'satis.example.com': { username: 'ci', password: 'ci-secret' } },
+    });
+
+    const auth = await loadComposerAuth(projectDir);
+
+    expect(auth.bearer).toEqual({
+      'global.example.com': 'global-token',
+      'shared.example.com': 'project',
+    });
+    expect(auth['http-basic']?.['satis.example.com']).toEqual({
+      username: 'ci',
+      password: 'ci-secret',
+    });
+  });
+
+  test('ignores malformed auth sources', async () => {
+    await writeFile(path.join(projectDir, 'auth.json'), 'not json');
+    process.env.COMPOSER_AUTH = '{broken';
+
+    expect(await loadComposerAuth(projectDir)).toEqual({});
+  });
+});
+
+describe('getAuthHeaders', () => {
+  test('builds basic authorization for http-basic hosts', () => {
+    const headers = getAuthHeaders('https://satis.example.com/packages.json', {
+      'http-basic': { 'satis.example.com': { username: 'user', password: 'secret' } },
+    });
+    expect(headers.Authorization).toBe(`Basic ${btoa('user:secret')}`);
+  });
+
+  test('prefers host with port over bare hostname', () => {
+    const headers = getAuthHeaders('https://repo.example.com:8443/p2/a/b.json', {
+      bearer: { 'repo.example.com:8443': 'with-port', 'repo.example.com': 'without-port' },
+    });
+    expect(headers.Authorization).toBe('Bearer with-port');
+  });
+
+  test('sends gitlab tokens as PRIVATE-TOKEN', () => {
+    expect(
+      getAuthHeaders('https://gitlab.example.com/api/v4/group/1/-/packages/composer/packages.json', {
+        'gitlab-token': { 'gitlab.example.com': 'glpat-123' },
+      }),
+    ).toEqual({ 'PRIVATE-TOKEN': 'glpat-123' });
+
+    expect(
+      getAuthHeaders('https://gitlab.example.com/packages.json', {
+        'gitlab-token': { 'gitlab.example.com': { username: 'bot', token: 'glpat-456' } },
+      }),
+    ).toEqual({ 'PRIVATE-TOKEN': 'glpat-456' });
+  });
+
+  test('uses github.com oauth token for api.github.com', () => {
+    const headers = getAuthHeaders('https://api.github.com/repos/acme/private', {
+      'github-oauth': { 'github.com': 'ghp_123' },
+    });
+    expect(headers.Authorization).toBe('token ghp_123');
+  });
+
+  test('returns no headers for unknown hosts', () => {
+    expect(
+      getAuthHeaders('https://repo.packagist.org/p2/vendor/package.json', {
+        bearer: { 'satis.example.com': 'token' },
+      }),
+    ).toEqual({});
+  });
+});
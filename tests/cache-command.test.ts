@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { runCacheCommand, selectPrunableEntries } from '../src/commands/cache';
+import { listCacheEntries, setCache, type CacheFileInfo } from '../src/cache';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const entry = (key: string, packages: string[], ageDays: number): CacheFileInfo => ({
+  key,
+  size: 100,
+  timestamp: Date.now() - ageDays * DAY,
+  checkedAt: Date.now() - ageDays * DAY,
+  packages,
+});
+
+describe('selectPrunableEntries', () => {
+  const entries = [
+    entry('vendor_fresh', ['vendor/fresh'], 1),
+    entry('vendor_old', ['vendor/old'], 40),
+    entry('host_packages', [], 2),
+  ];
+
+  test('selects entries older than the given age', () => {
+    const selected = selectPrunableEntries(entries, 30 * DAY, null);
+    expect(selected.map((e) => e.key)).toEqual(['vendor_old']);
+  });
+
+  test('selects entries not referenced by any composer.json', () => {
+    const selected = selectPrunableEntries(entries, null, new Set(['vendor/old']));
+    expect(selected.map((e) => e.key)).toEqual(['vendor_fresh']);
+  });
+
+  test('keeps repository indexes unless they are too old', () => {
+    const selected = selectPrunableEntries(entries, 1.5 * DAY, new Set());
+    expect(selected.map((e) => e.key)).toEqual(['vendor_fresh', 'vendor_old', 'host_packages']);
+  });
+});
+
+describe('runCacheCommand', () => {
+  const originalCacheDir = process.env.COMZE_CACHE_DIR;
+  let tempDir: string;
+  let logSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  const output = () =>
+    logSpy.mock.calls.flatMap((call: unknown[]) => call.map((value) => String(value))).join('\n');
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'comze-cache-command-'));
+    process.env.COMZE_CACHE_DIR = path.join(tempDir, 'cache');
+    logSpy = spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+
+    await setCache('vendor_kept', { packages: { 'vendor/kept': [] } }, 1, { etag: '"a"' });
+    await setCache('vendor_dropped', { packages: { 'vendor/dropped': [] } }, 1);
+  });
+
+  afterEach(async () => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    if (originalCacheDir === undefined) delete process.env.COMZE_CACHE_DIR;
+    else process.env.COMZE_CACHE_DIR = originalCacheDir;
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('list prints the resolved cache path and cached packages', async () => {
+    expect(await runCacheCommand('list', { composerFiles: [] })).toBe(0);
+
+    expect(output()).toContain(path.join(tempDir, 'cache'));
+    expect(output()).toContain('COMZE_CACHE_DIR');
+    expect(output()).toContain('vendor/kept');
+    expect(output()).toContain('etag');
+  });
+
+  test('stats prints entry count', async () => {
+    expect(await runCacheCommand('stats', { composerFiles: [] })).toBe(0);
+    expect(output()).toContain('2');
+  });
+
+  test('prune removes entries not referenced by the given composer.json', async () => {
+    const composerPath = path.join(tempDir, 'composer.json');
+    await writeFile(composerPath, JSON.stringify({ require: { 'vendor/kept': '^1.0' } }));
+
+    expect(await runCacheCommand('prune', { composerFiles: [composerPath] })).toBe(0);
+
+    const remaining = await listCacheEntries();
+    expect(remaining.map((e) => e.key)).toEqual(['vendor_kept']);
+  });
+
+  test('prune requires a criterion', async () => {
+    expect(await runCacheCommand('prune', { composerFiles: [] })).toBe(1);
+    expect(await runCacheCommand('prune', { olderThan: 'soon', composerFiles: [] })).toBe(1);
+    expect(await listCacheEntries()).toHaveLength(2);
+  });
+
+  test('clean removes everything', async () => {
+    expect(await runCacheCommand('clean', { composerFiles: [] })).toBe(0);
+    expect(await listCacheEntries()).toEqual([]);
+    expect(output()).toContain('Removed 2 entries');
+  });
+
+  test('clean leaves files that are not cache entries alone', async () => {
+    const cacheDir = path.join(tempDir, 'cache');
+    await writeFile(path.join(cacheDir, 'settings.json'), '{}');
+    await writeFile(path.join(cacheDir, 'other_tool.json'), JSON.stringify({ name: 'other' }));
+
+    expect(await runCacheCommand('clean', { composerFiles: [] })).toBe(0);
+
+    expect(output()).toContain('Removed 2 entries');
+    expect((await readdir(cacheDir)).sort()).toEqual(['other_tool.json', 'settings.json']);
+  });
+
+  test('rejects unknown actions', async () => {
+    expect(await runCacheCommand('purge', { composerFiles: [] })).toBe(1);
+  });
+});
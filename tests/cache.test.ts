@@ -2,7 +2,14 @@ import { describe, test, expect, afterAll } from 'bun:test';
 import { stat } from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
-import { getCacheEntry, setCache, touchCache } from '../src/cache';
+import {
+  getCacheEntry,
+  listCacheEntries,
+  removeCacheEntries,
+  resolveCacheDir,
+  setCache,
+  touchCache,
+} from '../src/cache';
 
 const TEST_CACHE_KEY = 'test_key';
 const TEST_CACHE_DIR = path.join(
@@ -48,6 +55,31 @@ describe('Cache', () => {
     expect(cached?.etag).toBe('"etag-1"');
   });
 
+  test('resolveCacheDir reports COMZE_CACHE_DIR as source', () => {
+    expect(resolveCacheDir()).toEqual({ path: TEST_CACHE_DIR, source: 'COMZE_CACHE_DIR' });
+  });
+
+  test('listCacheEntries reports packages, validators and size', async () => {
+    await setCache('vendor_listed', { packages: { 'vendor/listed': [] } }, 1, {
+      etag: '"etag-listed"',
+    });
+
+    const entries = await listCacheEntries();
+    const entry = entries.find((e) => e.key === 'vendor_listed');
+
+    expect(entry?.packages).toEqual(['vendor/listed']);
+    expect(entry?.etag).toBe('"etag-listed"');
+    expect(entry?.lastModified).toBeUndefined();
+    expect(entry?.size).toBeGreaterThan(0);
+  });
+
+  test('removeCacheEntries deletes entries and counts removals', async () => {
+    await setCache('to_remove', { foo: 'bar' }, 1);
+
+    expect(await removeCacheEntries(['to_remove', 'never_existed'])).toBe(1);
+    expect(await getCacheEntry('to_remove', 1)).toBeNull();
+  });
+
   afterAll(async () => {
     try {
       await import('node:fs/promises').then((fs) =>
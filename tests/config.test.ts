@@ -1,8 +1,17 @@
 import { describe, test, expect } from 'bun:test';
 import {
   filterComposerPackages,
+  getComposerConcurrency,
+  getComposerRegistry,
+  getIgnoredVersions,
+  getProjectPlatform,
+  getRangeStrategies,
+  getReleaseAgePolicy,
   getComposerExcludeList,
+  isEnvFlagEnabled,
   mergeExcludeLists,
+  parseConcurrency,
+  parseRangeStrategy,
 } from '../src/config';
 import type { ComposerJson } from '../src/types';
 
@@ -50,6 +59,7 @@ describe('filterComposerPackages', () => {
       {
         php: '^8.2',
         'ext-json': '*',
+        'lib-icu': '>=70',
         'vendor/package-a': '^1.0',
         'vendor/package-b': '^2.0',
         'vendor/package-c': '^3.0',
@@ -63,4 +73,222 @@ describe('filterComposerPackages', () => {
     });
     expect(ignoredPackages).toEqual(['vendor/package-b']);
   });
+
+  test('skips composer and php variant platform packages', () => {
+    const { filteredPackages, ignoredPackages } = filterComposerPackages(
+      {
+        'composer-runtime-api': '^2.2',
+        'composer-plugin-api': '^2.0',
+        'php-64bit': '*',
+        'PHP-ZTS': '*',
+        hhvm: '*',
+        'composer/semver': '^3.0',
+      },
+      [],
+    );
+
+    expect(filteredPackages).toEqual({ 'composer/semver': '^3.0' });
+    expect(ignoredPackages).toEqual([]);
+  });
+});
+
+describe('isEnvFlagEnabled', () => {
+  test('accepts common truthy values', () => {
+    expect(isEnvFlagEnabled('1')).toBe(true);
+    expect(isEnvFlagEnabled('true')).toBe(true);
+    expect(isEnvFlagEnabled(' YES ')).toBe(true);
+  });
+
+  test('treats missing and falsy values as disabled', () => {
+    expect(isEnvFlagEnabled(undefined)).toBe(false);
+    expect(isEnvFlagEnabled('')).toBe(false);
+    expect(isEnvFlagEnabled('0')).toBe(false);
+    expect(isEnvFlagEnabled('false')).toBe(false);
+  });
+});
+
+describe('parseConcurrency', () => {
+  test('accepts positive integers from numbers and strings', () => {
+    expect(parseConcurrency(8)).toBe(8);
+    expect(parseConcurrency(' 12 ')).toBe(12);
+  });
+
+  test('rejects missing, zero, negative and fractional values', () => {
+    expect(parseConcurrency(undefined)).toBeNull();
+    expect(parseConcurrency('')).toBeNull();
+    expect(parseConcurrency(0)).toBeNull();
+    expect(parseConcurrency('-2')).toBeNull();
+    expect(parseConcurrency(2.5)).toBeNull();
+    expect(parseConcurrency('many')).toBeNull();
+  });
+});
+
+describe('getComposerConcurrency', () => {
+  test('reads concurrency from composer extra config', () => {
+    expect(getComposerConcurrency({ extra: { comze: { concurrency: 10 } } })).toBe(10);
+  });
+
+  test('returns null for missing or invalid config', () => {
+    expect(getComposerConcurrency({})).toBeNull();
+    const composer = { extra: { comze: { concurrency: 'fast' } } } as unknown as ComposerJson;
+    expect(getComposerConcurrency(composer)).toBeNull();
+  });
+});
+
+describe('getComposerRegistry', () => {
+  test('reads and normalizes the registry from composer extra config', () => {
+    expect(
+      getComposerRegistry({ extra: { comze: { registry: 'https://mirror.example.com/p2/' } } }),
+    ).toBe('https://mirror.example.com');
+  });
+
+  test('returns null for missing or invalid config', () => {
+    expect(getComposerRegistry({})).toBeNull();
+    expect(getComposerRegistry({ extra: { comze: { registry: 'not a url' } } })).toBeNull();
+  });
+});
+
+describe('parseRangeStrategy', () => {
+  test('accepts known strategies case-insensitively', () => {
+    expect(parseRangeStrategy('widen')).toBe('widen');
+    expect(parseRangeStrategy(' Keep ')).toBe('keep');
+  });
+
+  test('returns null for unknown values', () => {
+    expect(parseRangeStrategy(undefined)).toBeNull();
+    expect(parseRangeStrategy('pin')).toBeNull();
+    expect(parseRangeStrategy(1)).toBeNull();
+  });
+});
+
+describe('getRangeStrategies', () => {
+  const packages = ['vendor/lib', 'vendor/app', 'vendor/other'];
+
+  test('returns no strategies when nothing is configured', () => {
+    expect(getRangeStrategies({}, packages).size).toBe(0);
+  });
+
+  test('applies the global strategy and per-package overrides', () => {
+    const composer: ComposerJson = {
+      extra: {
+        comze: {
+          rangeStrategy: 'bump',
+          rangeStrategies: { 'Vendor/Lib': 'widen', 'vendor/app': 'replace' },
+        },
+      },
+    };
+
+    const strategies = getRangeStrategies(composer, packages);
+    expect(strategies.get('vendor/lib')).toBe('widen');
+    expect(strategies.has('vendor/app')).toBe(false);
+    expect(strategies.get('vendor/other')).toBe('bump');
+  });
+
+  test('lets the flag override the global strategy but not per-package entries', () => {
+    const composer: ComposerJson = {
+      extra: { comze: { rangeStrategy: 'bump', rangeStrategies: { 'vendor/lib': 'widen' } } },
+    };
+
+    const strategies = getRangeStrategies(composer, packages, 'keep');
+    expect(strategies.get('vendor/lib')).toBe('widen');
+    expect(strategies.get('vendor/other')).toBe('keep');
+  });
+
+  test('ignores unknown strategies', () => {
+    const composer = {
+      extra: { comze: { rangeStrategy: 'pin', rangeStrategies: { 'vendor/lib': 'loose' } } },
+    } as unknown as ComposerJson;
+    expect(getRangeStrategies(composer, packages).size).toBe(0);
+  });
+});
+
+describe('getReleaseAgePolicy', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  test('returns undefined when no minimum age is configured', () => {
+    expect(getReleaseAgePolicy({})).toBeUndefined();
+  });
+
+  test('applies a single duration to every diff type', () => {
+    expect(getReleaseAgePolicy({ extra: { comze: { minReleaseAge: '3d' } } })).toEqual({
+      major: 3 * DAY,
+      minor: 3 * DAY,
+      patch: 3 * DAY,
+    });
+  });
+
+  test('reads durations per diff type', () => {
+    const composer: ComposerJson = {
+      extra: { comze: { minReleaseAge: { major: '1w', patch: '12h' } } },
+    };
+    expect(getReleaseAgePolicy(composer)).toEqual({ major: 7 * DAY, patch: DAY / 2 });
+  });
+
+  test('lets diff type entries override the flag', () => {
+    const composer: ComposerJson = { extra: { comze: { minReleaseAge: { patch: '1d' } } } };
+    expect(getReleaseAgePolicy(composer, 3 * DAY)).toEqual({
+      major: 3 * DAY,
+      minor: 3 * DAY,
+      patch: DAY,
+    });
+  });
+
+  test('ignores invalid durations', () => {
+    expect(getReleaseAgePolicy({ extra: { comze: { minReleaseAge: 'soon' } } })).toBeUndefined();
+  });
+});
+
+describe('getIgnoredVersions', () => {
+  test('reads versions and constraints keyed by lowercase package name', () => {
+    const composer: ComposerJson = {
+      extra: {
+        comze: {
+          ignoreVersions: { 'Vendor/Package': ['5.4.3', '>=5.5 <5.5.2'], 'vendor/other': '2.0.1' },
+        },
+      },
+    };
+    expect(getIgnoredVersions(composer)).toEqual({
+      'vendor/package': ['5.4.3', '>=5.5 <5.5.2'],
+      'vendor/other': ['2.0.1'],
+    });
+  });
+
+  test('drops invalid entries', () => {
+    const composer = {
+      extra: { comze: { ignoreVersions: { 'vendor/package': ['not a version', 3], 'vendor/x': [] } } },
+    } as unknown as ComposerJson;
+    expect(getIgnoredVersions(composer)).toEqual({});
+    expect(getIgnoredVersions({})).toEqual({});
+  });
+});
+
+describe('getProjectPlatform', () => {
+  test('prefers config.platform.php over require.php', () => {
+    expect(
+      getProjectPlatform({ require: { php: '^8.1' }, config: { platform: { php: '8.2.12' } } }),
+    ).toMatchObject({ php: '8.2.12', phpSource: 'config.platform.php' });
+  });
+
+  test('falls back to require.php', () => {
+    expect(getProjectPlatform({ require: { php: '^8.1' } })).toMatchObject({
+      php: '^8.1',
+      phpSource: 'require.php',
+    });
+    expect(getProjectPlatform({}).php).toBeUndefined();
+  });
+
+  test('combines required extensions with config.platform entries', () => {
+    const platform = getProjectPlatform({
+      require: { 'ext-json': '*', 'ext-intl': '*' },
+      'require-dev': { 'ext-xdebug': '*' },
+      config: { platform: { 'ext-sodium': '2.0.0', 'ext-xdebug': false, 'lib-icu': '72.1' } },
+    });
+
+    expect(platform.extensions).toEqual({
+      'ext-json': '*',
+      'ext-intl': '*',
+      'ext-sodium': '2.0.0',
+      'lib-icu': '72.1',
+    });
+  });
 });
@@ -0,0 +1,86 @@
+import { describe, test, expect } from 'bun:test';
+import { findConflicts } from '../src/conflicts';
+import type { PackageInfo } from '../src/types';
+
+const update = (name: string, currentVersion: string, latestVersion: string): PackageInfo => ({
+  name,
+  currentVersion,
+  latestVersion,
+  diffType: 'major',
+  releaseTime: '2024-01-01T12:00:00+00:00',
+  age: '1 mo',
+  ageMonths: 1,
+});
+
+describe('findConflicts', () => {
+  test('flags requirements that exclude a composer.json constraint', () => {
+    const conflicts = findConflicts([update('laravel/framework', '^10.0', '11.0.0')], {
+      requires: { 'laravel/framework': '^10.0', 'symfony/console': '^6.4' },
+      locked: [],
+      updateRequires: new Map([['laravel/framework', { php: '^8.2', 'symfony/console': '^7.0' }]]),
+    });
+
+    expect(conflicts.get('laravel/framework')).toEqual([
+      'requires symfony/console ^7.0 but composer.json requires ^6.4',
+    ]);
+  });
+
+  test('accepts requirements satisfied by another proposed update', () => {
+    const conflicts = findConflicts(
+      [update('laravel/framework', '^10.0', '11.0.0'), update('symfony/console', '^6.4', '7.1.0')],
+      {
+        requires: { 'laravel/framework': '^10.0', 'symfony/console': '^6.4' },
+        locked: [],
+        updateRequires: new Map([['laravel/framework', { 'symfony/console': '^7.0' }]]),
+      },
+    );
+
+    expect(conflicts.size).toBe(0);
+  });
+
+  test('flags requirements not satisfied by another proposed update', () => {
+    const conflicts = findConflicts(
+      [update('acme/app-kit', '^1.0', '2.0.0'), update('symfony/console', '^6.4', '8.0.0')],
+      {
+        requires: { 'acme/app-kit': '^1.0', 'symfony/console': '^6.4' },
+        locked: [],
+        updateRequires: new Map([['acme/app-kit', { 'symfony/console': '^7.0' }]]),
+      },
+    );
+
+    expect(conflicts.get('acme/app-kit')).toEqual([
+      'requires symfony/console ^7.0 but it would be updated to 8.0.0',
+    ]);
+  });
+
+  test('flags conflicts with packages locked in composer.lock', () => {
+    const conflicts = findConflicts(
+      [update('psr/log', '^1.0', '3.0.0'), update('acme/logger', '^1.0', '2.0.0')],
+      {
+        requires: { 'psr/log': '^1.0', 'acme/logger': '^1.0' },
+        locked: [
+          { name: 'monolog/monolog', version: '2.9.0', require: { 'psr/log': '^1.0.1 || ^2.0' } },
+          { name: 'acme/http', version: '1.0.0', require: { 'psr/http-message': '^1.0' } },
+        ],
+        updateRequires: new Map([['acme/logger', { 'psr/http-message': '^2.0' }]]),
+      },
+    );
+
+    expect(conflicts.get('psr/log')).toEqual(['monolog/monolog 2.9.0 requires psr/log ^1.0.1 || ^2.0']);
+    expect(conflicts.get('acme/logger')).toEqual([
+      'requires psr/http-message ^2.0 but acme/http 1.0.0 requires ^1.0',
+    ]);
+  });
+
+  test('ignores platform requirements and constraints it cannot compare', () => {
+    const conflicts = findConflicts([update('vendor/package', '^1.0', '2.0.0')], {
+      requires: { 'vendor/package': '^1.0', 'vendor/branch': 'dev-main' },
+      locked: [{ name: 'vendor/sibling', version: '1.0.0', require: { 'vendor/package': 'self.version' } }],
+      updateRequires: new Map([
+        ['vendor/package', { php: '^9.0', 'ext-json': '*', 'vendor/branch': '^2.0' }],
+      ]),
+    });
+
+    expect(conflicts.size).toBe(0);
+  });
+});
@@ -0,0 +1,348 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  constraintToString,
+  getIntervals,
+  intersection,
+  intersects,
+  isSatisfiable,
+  matches,
+  normalizeComposerVersion,
+  parseConstraints,
+  parseStability,
+  tryParseConstraints,
+  union,
+  versionCompare,
+  ConstraintParseError,
+} from '../src/utils/constraint';
+
+// Test vectors taken from composer/semver's VersionParserTest
+describe('normalizeComposerVersion', () => {
+  const cases: [string, string][] = [
+    ['1.0.0', '1.0.0.0'],
+    ['1.2.3.4', '1.2.3.4'],
+    ['1.0.0RC1dev', '1.0.0.0-RC1-dev'],
+    ['1.0.0-rC15-dev', '1.0.0.0-RC15-dev'],
+    ['1.0.0.RC.15-dev', '1.0.0.0-RC15-dev'],
+    ['1.0.0-rc1', '1.0.0.0-RC1'],
+    ['1.0.0.pl3-dev', '1.0.0.0-patch3-dev'],
+    ['1.0-dev', '1.0.0.0-dev'],
+    ['0', '0.0.0.0'],
+    ['10.4.13-beta', '10.4.13.0-beta'],
+    ['10.4.13beta2', '10.4.13.0-beta2'],
+    ['10.4.13beta.2', '10.4.13.0-beta2'],
+    ['v1.13.11-beta.0', '1.13.11.0-beta0'],
+    ['10.4.13-b', '10.4.13.0-beta'],
+    ['10.4.13-b5', '10.4.13.0-beta5'],
+    ['v1.0.0', '1.0.0.0'],
+    ['2010.01', '2010.01.0.0'],
+    ['2010.01.02', '2010.01.02.0'],
+    ['2010.1.555', '2010.1.555.0'],
+    ['v20100102', '20100102'],
+    ['2010-01-02', '2010.01.02'],
+    ['2010-01-02.5', '2010.01.02.5'],
+    ['20100102-203040', '20100102.203040'],
+    ['20100102203040-10', '20100102203040.10'],
+    ['20100102-203040-p1', '20100102.203040-patch1'],
+    ['201903.0-p2', '201903.0-patch2'],
+    ['dev-master', 'dev-master'],
+    ['master', 'dev-master'],
+    ['dev-trunk', 'dev-trunk'],
+    ['1.x-dev', '1.9999999.9999999.9999999-dev'],
+    ['dev-feature-foo', 'dev-feature-foo'],
+    ['DEV-FOOBAR', 'dev-FOOBAR'],
+    ['dev-feature/foo', 'dev-feature/foo'],
+    ['dev-feature+issue-1', 'dev-feature+issue-1'],
+    ['dev-master as 1.0.0', 'dev-master'],
+    ['dev-load-varnish-only-when-used as ^2.0', 'dev-load-varnish-only-when-used'],
+    ['dev-load-varnish-only-when-used@dev as ^2.0@dev', 'dev-load-varnish-only-when-used'],
+    ['1.0.0+foo@dev', '1.0.0.0'],
+    ['dev-load-varnish-only-when-used@stable', 'dev-load-varnish-only-when-used'],
+    ['1.0.0-beta.5+foo', '1.0.0.0-beta5'],
+    ['1.0.0+foo', '1.0.0.0'],
+    ['1.0.0+foo as 2.0', '1.0.0.0'],
+    ['00.01.03.04', '00.01.03.04'],
+    ['000.001.003.004', '000.001.003.004'],
+    ['0700', '0700.0.0.0'],
+    ['041.x-dev', '041.9999999.9999999.9999999-dev'],
+    ['dev-041.003', 'dev-041.003'],
+    ['dev-1.0.0-dev<1.0.5-dev', 'dev-1.0.0-dev<1.0.5-dev'],
+    ['dev-foo bar', 'dev-foo bar'],
+    [' 1.0.0', '1.0.0.0'],
+    ['1.0.0 ', '1.0.0.0'],
+  ];
+
+  for (const [input, expected] of cases) {
+    test(`normalizes "${input}"`, () => {
+      expect(normalizeComposerVersion(input)).toBe(expected);
+    });
+  }
+
+  test('rejects invalid versions', () => {
+    for (const input of ['', 'a', '1.0.0-meh', '1.0.0.0.0', 'feature-foo', '1.0 .2']) {
+      expect(() => normalizeComposerVersion(input)).toThrow(ConstraintParseError);
+    }
+  });
+});
+
+describe('parseConstraints', () => {
+  const cases: [string, string][] = [
+    // Simple constraints
+    ['*', '*'],
+    ['*.*', '>= 0.0.0.0-dev'],
+    ['<>1.0.0', '!= 1.0.0.0'],
+    ['!=1.0.0', '!= 1.0.0.0'],
+    ['>1.0.0', '> 1.0.0.0'],
+    ['<1.2.3.4', '< 1.2.3.4-dev'],
+    ['<=1.2.3', '<= 1.2.3.0'],
+    ['>=1.2.3', '>= 1.2.3.0-dev'],
+    ['=1.2.3', '== 1.2.3.0'],
+    ['==1.2.3', '== 1.2.3.0'],
+    ['1.2.3', '== 1.2.3.0'],
+    ['=1.0', '== 1.0.0.0'],
+    ['1.2.3b5', '== 1.2.3.0-beta5'],
+    ['1.2.3a1', '== 1.2.3.0-alpha1'],
+    ['1.2.3p1234', '== 1.2.3.0-patch1234'],
+    ['1.2.3pl1234', '== 1.2.3.0-patch1234'],
+    ['>= 1.2.3', '>= 1.2.3.0-dev'],
+    ['< 1.2.3', '< 1.2.3.0-dev'],
+    ['> 1.2.3', '> 1.2.3.0'],
+    ['>=dev-master', '>= dev-master'],
+    ['dev-master', '== dev-master'],
+    ['dev-feature-a', '== dev-feature-a'],
+    ['dev-some-fix', '== dev-some-fix'],
+    ['dev-CAPS', '== dev-CAPS'],
+    ['dev-master as 1.0.0', '== dev-master'],
+    ['<1.2.3.4-stable', '< 1.2.3.4'],
+    ['>=1.2.3.4-stable', '>= 1.2.3.4'],
+    ['1.0@dev', '== 1.0.0.0'],
+    ['1.x-dev', '== 1.9999999.9999999.9999999-dev'],
+    ['foobar-dev', '== dev-foobar'],
+    ['dev-main#abc123', '== dev-main'],
+    // Wildcards
+    ['2.*', '[>= 2.0.0.0-dev < 3.0.0.0-dev]'],
+    ['2.*.*', '[>= 2.0.0.0-dev < 3.0.0.0-dev]'],
+    ['20.*', '[>= 20.0.0.0-dev < 21.0.0.0-dev]'],
+    ['2.0.*', '[>= 2.0.0.0-dev < 2.1.0.0-dev]'],
+    ['2.x', '[>= 2.0.0.0-dev < 3.0.0.0-dev]'],
+    ['2.x.x', '[>= 2.0.0.0-dev < 3.0.0.0-dev]'],
+    ['2.2.x', '[>= 2.2.0.0-dev < 2.3.0.0-dev]'],
+    ['2.10.X', '[>= 2.10.0.0-dev < 2.11.0.0-dev]'],
+    ['2.1.3.*', '[>= 2.1.3.0-dev < 2.1.4.0-dev]'],
+    ['0.*', '< 1.0.0.0-dev'],
+    ['0.*.*', '< 1.0.0.0-dev'],
+    ['0.x', '< 1.0.0.0-dev'],
+    // Tilde
+    ['~v1', '[>= 1.0.0.0-dev < 2.0.0.0-dev]'],
+    ['~1.0', '[>= 1.0.0.0-dev < 2.0.0.0-dev]'],
+    ['~1.0.0', '[>= 1.0.0.0-dev < 1.1.0.0-dev]'],
+    ['~1.2', '[>= 1.2.0.0-dev < 2.0.0.0-dev]'],
+    ['~1.2.3', '[>= 1.2.3.0-dev < 1.3.0.0-dev]'],
+    ['~1.2.3.4', '[>= 1.2.3.4-dev < 1.2.4.0-dev]'],
+    ['~1.2-beta', '[>= 1.2.0.0-beta < 2.0.0.0-dev]'],
+    ['~1.2-b2', '[>= 1.2.0.0-beta2 < 2.0.0.0-dev]'],
+    ['~1.2-BETA2', '[>= 1.2.0.0-beta2 < 2.0.0.0-dev]'],
+    ['~1.2.2-dev', '[>= 1.2.2.0-dev < 1.3.0.0-dev]'],
+    ['~1.2.2-stable', '[>= 1.2.2.0 < 1.3.0.0-dev]'],
+    // Caret
+    ['^v1', '[>= 1.0.0.0-dev < 2.0.0.0-dev]'],
+    ['^0', '[>= 0.0.0.0-dev < 1.0.0.0-dev]'],
+    ['^0.0', '[>= 0.0.0.0-dev < 0.1.0.0-dev]'],
+    ['^1.2', '[>= 1.2.0.0-dev < 2.0.0.0-dev]'],
+    ['^1.2.3-beta.2', '[>= 1.2.3.0-beta2 < 2.0.0.0-dev]'],
+    ['^1.2.3.4', '[>= 1.2.3.4-dev < 2.0.0.0-dev]'],
+    ['^1.2.3', '[>= 1.2.3.0-dev < 2.0.0.0-dev]'],
+    ['^0.2.3', '[>= 0.2.3.0-dev < 0.3.0.0-dev]'],
+    ['^0.2', '[>= 0.2.0.0-dev < 0.3.0.0-dev]'],
+    ['^0.2.0', '[>= 0.2.0.0-dev < 0.3.0.0-dev]'],
+    ['^0.0.3', '[>= 0.0.3.0-dev < 0.0.4.0-dev]'],
+    ['^0.0.3-alpha', '[>= 0.0.3.0-alpha < 0.0.4.0-dev]'],
+    ['^0.0.3-dev', '[>= 0.0.3.0-dev < 0.0.4.0-dev]'],
+    // Hyphen ranges
+    ['1 - 2', '[>= 1.0.0.0-dev < 3.0.0.0-dev]'],
+    ['1.2.3 - 2.3.4.5', '[>= 1.2.3.0-dev <= 2.3.4.5]'],
+    ['1.2-beta - 2.3', '[>= 1.2.0.0-beta < 2.4.0.0-dev]'],
+    ['1.2-beta - 2.3-dev', '[>= 1.2.0.0-beta <= 2.3.0.0-dev]'],
+    ['1.2-RC - 2.3.1', '[>= 1.2.0.0-RC <= 2.3.1.0]'],
+    ['1.2.3-alpha - 2.3-RC', '[>= 1.2.3.0-alpha <= 2.3.0.0-RC]'],
+    ['1 - 2.0', '[>= 1.0.0.0-dev < 2.1.0.0-dev]'],
+    ['1 - 2.1', '[>= 1.0.0.0-dev < 2.2.0.0-dev]'],
+    ['1.2 - 2.1.0', '[>= 1.2.0.0-dev <= 2.1.0.0]'],
+    ['1.3 - 2.1.3', '[>= 1.3.0.0-dev <= 2.1.3.0]'],
+    // Multiple constraints
+    ['>2.0,<=3.0', '[> 2.0.0.0 <= 3.0.0.0]'],
+    ['>2.0 <=3.0', '[> 2.0.0.0 <= 3.0.0.0]'],
+    ['>2.0  <=3.0', '[> 2.0.0.0 <= 3.0.0.0]'],
+    ['>2.0, <=3.0', '[> 2.0.0.0 <= 3.0.0.0]'],
+    ['>2.0 ,<=3.0', '[> 2.0.0.0 <= 3.0.0.0]'],
+    ['>2.0 , <=3.0', '[> 2.0.0.0 <= 3.0.0.0]'],
+    ['>2.0   , <=  3.0', '[> 2.0.0.0 <= 3.0.0.0]'],
+    ['> 2.0   <=  3.0', '[> 2.0.0.0 <= 3.0.0.0]'],
+    ['>2.0@stable,<=3.0@dev', '[> 2.0.0.0 <= 3.0.0.0-dev]'],
+    ['>=2.0@dev,<3.0', '[>= 2.0.0.0-dev < 3.0.0.0-dev]'],
+    ['^1.0 !=1.2.0', '[>= 1.0.0.0-dev < 2.0.0.0-dev != 1.2.0.0]'],
+    ['<1.1 || >=1.2', '[< 1.1.0.0-dev || >= 1.2.0.0-dev]'],
+    ['^2.0 || ^3.0', '[[>= 2.0.0.0-dev < 3.0.0.0-dev] || [>= 3.0.0.0-dev < 4.0.0.0-dev]]'],
+    ['1.0 | 2.0', '[== 1.0.0.0 || == 2.0.0.0]'],
+    ['^7.2.5|^8.0', '[[>= 7.2.5.0-dev < 8.0.0.0-dev] || [>= 8.0.0.0-dev < 9.0.0.0-dev]]'],
+  ];
+
+  for (const [input, expected] of cases) {
+    test(`parses "${input}"`, () => {
+      expect(constraintToString(parseConstraints(input))).toBe(expected);
+    });
+  }
+
+  test('rejects invalid constraints', () => {
+    const invalid = [
+      '',
+      '1.0.0-meh',
+      '>2.0,,<=3.0',
+      '>2.0 ,, <=3.0',
+      '>2.0 ||| <=3.0',
+      ',^1@dev || ^4@dev',
+      '^1@dev || ^4@dev,',
+      '^1@dev || ^4@dev ||',
+      '~>1.2',
+      'not-a-version',
+    ];
+
+    for (const input of invalid) {
+      expect(() => parseConstraints(input)).toThrow(ConstraintParseError);
+      expect(tryParseConstraints(input)).toBeNull();
+    }
+  });
+});
+
+describe('parseStability', () => {
+  test('detects the stability of versions', () => {
+    expect(parseStability('1.0.0')).toBe('stable');
+    expect(parseStability('2.0.0-beta1')).toBe('beta');
+    expect(parseStability('2.0.0b1')).toBe('beta');
+    expect(parseStability('2.0.0-alpha.3')).toBe('alpha');
+    expect(parseStability('2.0.0-RC2')).toBe('RC');
+    expect(parseStability('1.x-dev')).toBe('dev');
+    expect(parseStability('dev-main')).toBe('dev');
+    expect(parseStability('1.0.0-p1')).toBe('stable');
+  });
+});
+
+describe('versionCompare', () => {
+  test('orders stabilities like version_compare', () => {
+    const ordered = [
+      '1.0.0.0-dev',
+      '1.0.0.0-alpha1',
+      '1.0.0.0-beta',
+      '1.0.0.0-beta2',
+      '1.0.0.0-RC1',
+      '1.0.0.0',
+      '1.0.0.0-patch1',
+      '1.0.0.1',
+      '1.0.1.0',
+      '1.10.0.0',
+    ];
+
+    for (let i = 1; i < ordered.length; i++) {
+      expect(versionCompare(ordered[i - 1]!, ordered[i]!)).toBeLessThan(0);
+      expect(versionCompare(ordered[i]!, ordered[i - 1]!)).toBeGreaterThan(0);
+    }
+    expect(versionCompare('1.0.0.0', '1.0.0.0')).toBe(0);
+  });
+});
+
+describe('matches', () => {
+  test('applies caret semantics to 0.x versions', () => {
+    const constraint = parseConstraints('^0.4');
+    expect(matches(constraint, '0.4.9')).toBe(true);
+    expect(matches(constraint, '0.5.0')).toBe(false);
+  });
+
+  test('distinguishes ~1 from ~1.2 and ~1.2.3', () => {
+    expect(matches(parseConstraints('~1'), '1.9.0')).toBe(true);
+    expect(matches(parseConstraints('~1.2'), '1.9.0')).toBe(true);
+    expect(matches(parseConstraints('~1.2.3'), '1.9.0')).toBe(false);
+    expect(matches(parseConstraints('~1.2.3'), '1.2.9')).toBe(true);
+  });
+
+  test('handles comma-separated ranges and exclusions', () => {
+    const constraint = parseConstraints('>=1.4, <2.0, !=1.5.0');
+    expect(matches(constraint, '1.4.0')).toBe(true);
+    expect(matches(constraint, '1.5.0')).toBe(false);
+    expect(matches(constraint, '1.5.1')).toBe(true);
+    expect(matches(constraint, '2.0.0')).toBe(false);
+  });
+
+  test('compares four-segment versions and pre-releases', () => {
+    expect(matches(parseConstraints('>1.2.3.4'), '1.2.3.5')).toBe(true);
+    expect(matches(parseConstraints('>1.2.3.4'), '1.2.3.4')).toBe(false);
+    expect(matches(parseConstraints('<2.0'), '2.0.0-beta1')).toBe(false);
+    expect(matches(parseConstraints('^2.0@beta'), '2.0.0-beta1')).toBe(true);
+  });
+
+  test('only matches branches by name', () => {
+    expect(matches(parseConstraints('dev-main'), 'dev-main')).toBe(true);
+    expect(matches(parseConstraints('dev-main'), 'dev-feature')).toBe(false);
+    expect(matches(parseConstraints('>=1.0'), 'dev-main')).toBe(false);
+    expect(matches(parseConstraints('*'), 'dev-main')).toBe(true);
+  });
+
+  test('never matches invalid versions', () => {
+    expect(matches(parseConstraints('*'), 'not a version')).toBe(false);
+  });
+});
+
+describe('intersects', () => {
+  const check = (a: string, b: string) => intersects(parseConstraints(a), parseConstraints(b));
+
+  test('detects overlapping ranges', () => {
+    expect(check('^1.2', '>=1.5 <3')).toBe(true);
+    expect(check('^1.0 || ^2.0', '~2.3')).toBe(true);
+    expect(check('<=1.0', '>=1.0')).toBe(true);
+    expect(check('!=1.0', '1.0.1')).toBe(true);
+  });
+
+  test('detects disjoint ranges', () => {
+    expect(check('^1.2', '^2.0')).toBe(false);
+    expect(check('<1.0', '>=1.0')).toBe(false);
+    expect(check('!=1.0', '1.0')).toBe(false);
+    expect(check('^0.4', '^0.5')).toBe(false);
+  });
+
+  test('handles branches', () => {
+    expect(check('dev-main', '*')).toBe(true);
+    expect(check('dev-main', 'dev-main || ^1.0')).toBe(true);
+    expect(check('dev-main', '^1.0')).toBe(false);
+    expect(check('dev-main', '!=dev-main')).toBe(false);
+  });
+});
+
+describe('intersection and union', () => {
+  test('combine parsed constraints', () => {
+    const a = parseConstraints('^1.0');
+    const b = parseConstraints('<1.5');
+    expect(matches(intersection(a, b), '1.6.0')).toBe(false);
+    expect(matches(union(a, b), '1.6.0')).toBe(true);
+    expect(isSatisfiable(intersection(a, parseConstraints('^2.0')))).toBe(false);
+  });
+});
+
+describe('getIntervals', () => {
+  test('merges overlapping alternatives', () => {
+    expect(getIntervals(parseConstraints('^1.2 || ^2.0 || ~1.4'))).toEqual([
+      {
+        start: { version: '1.2.0.0-dev', inclusive: true },
+        end: { version: '3.0.0.0-dev', inclusive: false },
+      },
+    ]);
+  });
+
+  test('splits exclusions', () => {
+    expect(getIntervals(parseConstraints('!=1.0'))).toEqual([
+      { start: null, end: { version: '1.0.0.0', inclusive: false } },
+      { start: { version: '1.0.0.0', inclusive: false }, end: null },
+    ]);
+  });
+
+  test('returns no intervals for empty ranges', () => {
+    expect(getIntervals(parseConstraints('>=2.0 <1.0'))).toEqual([]);
+  });
+});
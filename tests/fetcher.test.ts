@@ -1,9 +1,14 @@
-import { describe, test, expect, mock, afterEach, afterAll } from 'bun:test';
+import { describe, test, expect, mock, afterEach, afterAll, beforeAll } from 'bun:test';
 import { setCache, getCacheEntry } from '../src/cache';
 import path from 'node:path';
 import os from 'node:os';
-import type { Stability } from '../src/types';
-import { fetchPackage, fetchAllPackages } from '../src/fetcher';
+import type { FetchProgressEvent, Stability } from '../src/types';
+import { fetchPackage, fetchAllPackages, FetchError, type FetchOptions } from '../src/fetcher';
+import {
+  getComposerRepositories,
+  getRepositoryCacheKey,
+  type Repository,
+} from '../src/repositories';
 
 const NO_CACHE = true;
 
@@ -81,18 +86,54 @@ describe('fetchPackage', () => {
     expect(result?.releaseTime).toBe('2024-01-01T12:00:00+00:00');
   });
 
-  test('returns null for non-existent package', async () => {
+  test('throws not-found for non-existent package', async () => {
     mockFetch({}, false, 404);
 
-    const result = await fetchPackageNoCache('nonexistent/package');
-    expect(result).toBeNull();
+    await expect(fetchPackageNoCache('nonexistent/package')).rejects.toMatchObject({
+      kind: 'not-found',
+    });
   });
 
-  test('returns null for empty versions', async () => {
+  test('throws not-found for empty versions', async () => {
     mockFetch({ packages: { 'vendor/package': [] } });
 
-    const result = await fetchPackageNoCache('vendor/package');
-    expect(result).toBeNull();
+    await expect(fetchPackageNoCache('vendor/package')).rejects.toMatchObject({
+      kind: 'not-found',
+    });
+  });
+
+  test('throws http error with status for server errors', async () => {
+    mockFetch({}, false, 500);
+
+    await expect(fetchPackageNoCache('vendor/package')).rejects.toMatchObject({
+      kind: 'http',
+      status: 500,
+      message: 'HTTP 500 from repo.packagist.org',
+    });
+  });
+
+  test('throws parse error for invalid JSON', async () => {
+    // @ts-expect-error
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Map(),
+        json: () => Promise.reject(new SyntaxError('Unexpected token')),
+      }),
+    );
+
+    await expect(fetchPackageNoCache('vendor/package')).rejects.toMatchObject({ kind: 'parse' });
+  });
+
+  test('throws invalid-name without making a request', async () => {
+    const fetchMock = mock(() => Promise.reject(new Error('network used')));
+    // @ts-expect-error
+    globalThis.fetch = fetchMock;
+
+    await expect(fetchPackageNoCache('not a package')).rejects.toBeInstanceOf(FetchError);
+    await expect(fetchPackageNoCache('vendor/')).rejects.toMatchObject({ kind: 'invalid-name' });
+    expect(fetchMock).not.toHaveBeenCalled();
   });
 
   test('skips dev versions and returns latest stable', async () => {
@@ -148,19 +189,21 @@ describe('fetchPackage', () => {
     expect(result?.latestVersion).toBe('dev-main');
   });
 
-  test('returns null on fetch error', async () => {
+  test('throws network error on fetch error', async () => {
     // @ts-expect-error
     globalThis.fetch = mock(() => Promise.reject(new Error('Network error')));
 
-    const result = await fetchPackageNoCache('vendor/package');
-    expect(result).toBeNull();
+    await expect(fetchPackageNoCache('vendor/package')).rejects.toMatchObject({
+      kind: 'network',
+    });
   });
 
-  test('returns null when packages object is missing', async () => {
+  test('throws not-found when packages object is missing', async () => {
     mockFetch({});
 
-    const result = await fetchPackageNoCache('vendor/package');
-    expect(result).toBeNull();
+    await expect(fetchPackageNoCache('vendor/package')).rejects.toMatchObject({
+      kind: 'not-found',
+    });
   });
 
   test('returns first eligible when preferStable is false', async () => {
@@ -231,6 +274,31 @@ describe('fetchPackage', () => {
     expect(result?.majorVersion).toBe('2.0.0');
   });
 
+  test('treats a new 0.x minor as a major version', async () => {
+    const mockResponse = {
+      packages: {
+        'vendor/package': [
+          {
+            version: '0.5.0',
+            version_normalized: '0.5.0.0',
+            time: '2024-02-01T12:00:00+00:00',
+          },
+          {
+            version: '0.4.3',
+            version_normalized: '0.4.3.0',
+            time: '2024-01-01T12:00:00+00:00',
+          },
+        ],
+      },
+    };
+
+    mockFetch(mockResponse);
+
+    const result = await fetchPackageNoCache('vendor/package', 'stable', true, '^0.4', false);
+    expect(result?.latestVersion).toBe('0.4.3');
+    expect(result?.majorVersion).toBe('0.5.0');
+  });
+
   test('does not report major version if already on latest major', async () => {
     const mockResponse = {
       packages: {
@@ -301,7 +369,7 @@ describe('fetchPackage', () => {
       },
     };
 
-    await setCache('vendor_package', cachedValue, 1, {
+    await setCache('repo.packagist.org_vendor_package', cachedValue, 1, {
       lastModified: 'Mon, 01 Jan 2024 12:00:00 GMT',
       etag: '"etag-1"',
     });
@@ -354,7 +422,7 @@ describe('fetchPackage', () => {
 
     await fetchPackage('vendor/package', 'stable', true, undefined, true, false);
 
-    const cached = await getCacheEntry<any>('vendor_package', 1);
+    const cached = await getCacheEntry<any>('repo.packagist.org_vendor_package', 1);
     expect(cached).not.toBeNull();
     expect(cached?.value.packages?.['vendor/package'][0]?.version).toBe('2.0.0');
     expect(cached?.lastModified).toBe('Tue, 02 Jan 2024 12:00:00 GMT');
@@ -386,6 +454,635 @@ describe('fetchPackage', () => {
     expect(result?.latestVersion).toBe('1.5.0');
     expect(result?.phpIncompatible).toBe(true);
     expect(result?.skippedVersion).toBe('2.0.0');
+    expect(result?.skipReason).toBe('php');
+  });
+
+  test('falls back to a version without missing extensions', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '2.1.0', time: '2023-02-01', require: { php: '^8.1', 'ext-intl': '*' } },
+          { version: '2.0.0', time: '2023-01-01', require: { php: '^8.1', 'ext-json': '*', 'ext-mbstring': '*' } },
+        ],
+      },
+    });
+
+    const result = await fetchPackage(
+      'vendor/package',
+      'stable',
+      true,
+      undefined,
+      true,
+      true,
+      '^8.2',
+      { extensions: { 'ext-mbstring': '*' } },
+    );
+
+    expect(result.latestVersion).toBe('2.0.0');
+    expect(result.skippedVersion).toBe('2.1.0');
+    expect(result.skipReason).toBe('ext-intl');
+    expect(result.phpIncompatible).toBeUndefined();
+  });
+
+  test('only checks extensions added since the current release', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '10.5.0', time: '2024-02-01', require: { 'ext-mbstring': '*', 'ext-ctype': '*' } },
+          { version: '10.0.0', time: '2023-02-01', require: { 'ext-mbstring': '*', 'ext-ctype': '*' } },
+        ],
+      },
+    });
+
+    const result = await fetchPackage('vendor/package', 'stable', true, '^10.0', true, true, '^8.2', {
+      extensions: {},
+    });
+
+    expect(result.latestVersion).toBe('10.5.0');
+    expect(result.skippedVersion).toBeUndefined();
+  });
+
+  test('keeps the current release when no newer version can be installed', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '2.1.0', time: '2024-02-01', require: { php: '>=8.3' } },
+          { version: '2.0.1', time: '2024-01-15', require: { 'ext-intl': '*' } },
+          { version: '2.0.0', time: '2024-01-01', require: { php: '>=8.1' } },
+        ],
+      },
+    });
+
+    const result = await fetchPackage('vendor/package', 'stable', true, '^2.0', true, true, '^8.1', {
+      extensions: {},
+      ignoreVersions: { 'vendor/package': ['2.0.0'] },
+    });
+
+    expect(result.latestVersion).toBe('2.0.0');
+    expect(result.skippedVersion).toBe('2.1.0');
+    expect(result.skipReason).toBe('php');
+  });
+
+  test('ignores extension requirements when no extension set is given', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [{ version: '2.1.0', time: '2023-02-01', require: { 'ext-intl': '*' } }],
+      },
+    });
+
+    const result = await fetchPackageNoCache('vendor/package');
+    expect(result.latestVersion).toBe('2.1.0');
+    expect(result.skipReason).toBeUndefined();
+  });
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const DAY = 24 * 60 * 60 * 1000;
+
+  test('holds back versions younger than the minimum release age', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '3.2.0', time: daysAgo(2) },
+          { version: '3.1.0', time: daysAgo(20) },
+        ],
+      },
+    });
+
+    const result = await fetchPackage('vendor/package', 'stable', true, '^3.0', true, true, undefined, {
+      minReleaseAge: { minor: 3 * DAY },
+    });
+
+    expect(result.latestVersion).toBe('3.1.0');
+    expect(result.heldVersion).toBe('3.2.0');
+    expect(result.heldReleaseTime).toBeDefined();
+  });
+
+  test('applies the minimum release age of the diff type', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '3.1.1', time: daysAgo(2) },
+          { version: '3.1.0', time: daysAgo(20) },
+        ],
+      },
+    });
+
+    const result = await fetchPackage('vendor/package', 'stable', true, '3.1.0', true, true, undefined, {
+      minReleaseAge: { minor: 3 * DAY, patch: DAY },
+    });
+
+    expect(result.latestVersion).toBe('3.1.1');
+    expect(result.heldVersion).toBeUndefined();
+  });
+
+  test('does not fall back to held versions for PHP or major updates', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '4.0.0', time: daysAgo(30) },
+          { version: '3.3.0', time: daysAgo(1), require: { php: '>=8.0' } },
+          { version: '3.2.0', time: daysAgo(30), require: { php: '>=8.3' } },
+          { version: '3.1.0', time: daysAgo(40), require: { php: '>=8.0' } },
+        ],
+      },
+    });
+
+    const result = await fetchPackage('vendor/package', 'stable', true, '^3.0', false, true, '^8.1', {
+      minReleaseAge: { minor: 3 * DAY, major: 3 * DAY },
+    });
+
+    expect(result.latestVersion).toBe('3.1.0');
+    expect(result.majorVersion).toBe('4.0.0');
+
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '3.3.0', time: daysAgo(1) },
+          { version: '3.2.0', time: daysAgo(30), require: { php: '>=8.3' } },
+          { version: '3.1.0', time: daysAgo(40), require: { php: '>=8.0' } },
+        ],
+      },
+    });
+
+    const held = await fetchPackage('vendor/package', 'stable', true, '^3.0', false, true, '^8.1', {
+      minReleaseAge: { minor: 3 * DAY },
+    });
+
+    expect(held.latestVersion).toBe('3.1.0');
+    expect(held.heldVersion).toBe('3.3.0');
+    expect(held.skippedVersion).toBe('3.2.0');
+    expect(held.skipReason).toBe('php');
+  });
+
+  test('reports the held version when the fallback stays within the current constraint', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '3.2.0', time: daysAgo(1) },
+          { version: '3.1.0', time: daysAgo(20) },
+        ],
+      },
+    });
+
+    const result = await fetchPackage('vendor/package', 'stable', true, '^3.1', true, true, undefined, {
+      minReleaseAge: { minor: 3 * DAY },
+    });
+
+    expect(result.latestVersion).toBe('3.1.0');
+    expect(result.heldVersion).toBe('3.2.0');
+  });
+
+  test('proposes nothing when every candidate is held', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '3.2.0', time: daysAgo(1) },
+          { version: '3.1.0', time: daysAgo(2) },
+        ],
+      },
+    });
+
+    const result = await fetchPackage('vendor/package', 'stable', true, '^3.0', true, true, undefined, {
+      minReleaseAge: { minor: 3 * DAY },
+    });
+
+    expect(result.allHeld).toBe(true);
+    expect(result.latestVersion).toBe('3.1.0');
+    expect(result.heldVersion).toBe('3.2.0');
+  });
+
+  test('reports versions held back while falling back to the current major', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '3.0.0', time: daysAgo(30) },
+          { version: '2.5.0', time: daysAgo(1) },
+          { version: '2.4.0', time: daysAgo(30) },
+        ],
+      },
+    });
+
+    const result = await fetchPackage('vendor/package', 'stable', true, '^2.0', false, true, undefined, {
+      minReleaseAge: { minor: 3 * DAY },
+    });
+
+    expect(result.latestVersion).toBe('2.4.0');
+    expect(result.majorVersion).toBe('3.0.0');
+    expect(result.heldVersion).toBe('2.5.0');
+  });
+
+  test('skips versions ignored by exact version or constraint', async () => {
+    mockFetch({
+      packages: {
+        'vendor/package': [
+          { version: '5.5.1', time: '2024-03-01' },
+          { version: '5.5.0', time: '2024-02-15' },
+          { version: '5.4.3', time: '2024-02-01' },
+          { version: '5.4.2', time: '2024-01-01' },
+        ],
+      },
+    });
+
+    const result = await fetchPackage('vendor/package', 'stable', true, '^5.4', true, true, undefined, {
+      ignoreVersions: { 'vendor/package': ['5.4.3', '>=5.5 <5.6'] },
+    });
+
+    expect(result.latestVersion).toBe('5.4.2');
+    expect(result.skippedVersion).toBe('5.5.1');
+    expect(result.skipReason).toBe('ignored');
+    expect(result.phpIncompatible).toBeUndefined();
+  });
+});
+
+describe('fetchPackage with minified metadata', () => {
+  const originalFetch = globalThis.fetch;
+
+  const mockMinifiedFetch = async () => {
+    const { readFile } = await import('node:fs/promises');
+    const fixture = JSON.parse(
+      await readFile(
+        path.join(import.meta.dir, 'fixtures', 'minified', 'vendor-package.json'),
+        'utf-8',
+      ),
+    );
+    // @ts-expect-error
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Map(),
+        json: () => Promise.resolve(fixture),
+      }),
+    );
+  };
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('reads inherited require and abandoned fields of older versions', async () => {
+    await mockMinifiedFetch();
+
+    const result = await fetchPackageNoCache('vendor/package', 'stable', true, '^2.0', false);
+    expect(result?.latestVersion).toBe('2.5.0');
+    expect(result?.phpRequirement).toBe('>=8.1');
+    expect(result?.require).toEqual({ php: '>=8.1', 'psr/log': '^2.0 || ^3.0' });
+    expect(result?.deprecated).toBe(true);
+    expect(result?.replacement).toBe('vendor/successor');
+  });
+
+  test('uses inherited PHP requirements when falling back', async () => {
+    await mockMinifiedFetch();
+
+    const result = await fetchPackage(
+      'vendor/package',
+      'stable',
+      true,
+      undefined,
+      true,
+      NO_CACHE,
+      '7.4.0',
+    );
+    expect(result?.latestVersion).toBe('1.9.0');
+    expect(result?.skippedVersion).toBe('3.0.0');
+  });
+});
+
+describe('fetchPackage with dev branch requirements', () => {
+  const originalFetch = globalThis.fetch;
+
+  const mockBranchFetch = (released: object[], branches: object[]) => {
+    // @ts-expect-error
+    globalThis.fetch = mock((url: string) =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Map(),
+        json: () =>
+          Promise.resolve({
+            packages: { 'vendor/package': url.endsWith('~dev.json') ? branches : released },
+          }),
+      }),
+    );
+  };
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('reports branch head and stable release covering the branch alias', async () => {
+    mockBranchFetch(
+      [
+        { version: '3.1.2', version_normalized: '3.1.2.0', time: '2024-03-01T12:00:00+00:00' },
+        { version: '3.0.0', version_normalized: '3.0.0.0', time: '2024-01-01T12:00:00+00:00' },
+      ],
+      [
+        {
+          version: 'dev-main',
+          version_normalized: 'dev-main',
+          time: '2024-04-01T12:00:00+00:00',
+          source: { reference: 'a1b2c3d4e5f6' },
+          extra: { 'branch-alias': { 'dev-main': '3.1.x-dev' } },
+        },
+      ],
+    );
+
+    const result = await fetchPackageNoCache('vendor/package', 'stable', true, 'dev-main');
+
+    // @ts-expect-error
+    const urls = globalThis.fetch.mock.calls.map((call) => call[0]);
+    expect(urls).toContain('https://repo.packagist.org/p2/vendor/package~dev.json');
+    expect(result?.devBranch).toEqual({
+      branch: 'dev-main',
+      time: '2024-04-01T12:00:00+00:00',
+      reference: 'a1b2c3d4e5f6',
+      alias: '3.1.x-dev',
+      stableVersion: '3.1.2',
+      suggestedConstraint: '^3.1',
+    });
+  });
+
+  test('uses the numeric branch name as release line', async () => {
+    mockBranchFetch(
+      [
+        { version: '3.0.0', version_normalized: '3.0.0.0', time: '2024-03-01T12:00:00+00:00' },
+        { version: '2.4.0', version_normalized: '2.4.0.0', time: '2024-01-01T12:00:00+00:00' },
+      ],
+      [{ version: '2.x-dev', version_normalized: '2.9999999.9999999.9999999-dev', time: '2024-04-01' }],
+    );
+
+    const result = await fetchPackageNoCache('vendor/package', 'stable', true, '2.x-dev');
+    expect(result?.devBranch?.stableVersion).toBe('2.4.0');
+    expect(result?.devBranch?.suggestedConstraint).toBe('^2.4');
+  });
+
+  test('reports no replacement when the line is unreleased', async () => {
+    mockBranchFetch(
+      [{ version: '3.0.0', version_normalized: '3.0.0.0', time: '2024-01-01T12:00:00+00:00' }],
+      [
+        {
+          version: 'dev-main',
+          version_normalized: 'dev-main',
+          time: '2024-04-01T12:00:00+00:00',
+          extra: { 'branch-alias': { 'dev-main': '3.1.x-dev' } },
+        },
+      ],
+    );
+
+    const result = await fetchPackageNoCache('vendor/package', 'stable', true, 'dev-main');
+    expect(result?.devBranch?.time).toBe('2024-04-01T12:00:00+00:00');
+    expect(result?.devBranch?.suggestedConstraint).toBeUndefined();
+  });
+
+  test('does not request branch metadata for release constraints', async () => {
+    mockBranchFetch(
+      [{ version: '3.0.0', version_normalized: '3.0.0.0', time: '2024-01-01T12:00:00+00:00' }],
+      [],
+    );
+
+    const result = await fetchPackageNoCache('vendor/package', 'stable', true, '^3.0');
+    expect(result?.devBranch).toBeUndefined();
+    // @ts-expect-error
+    expect(globalThis.fetch.mock.calls).toHaveLength(1);
+  });
+});
+
+describe('fetchPackage with a registry mirror', () => {
+  const originalFetch = globalThis.fetch;
+
+  const mirrorFetch = (version: string, urls: string[] = []) =>
+    mock((url: string) => {
+      urls.push(url);
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Map(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/mirrored': [
+                { version, version_normalized: `${version}.0`, time: '2024-01-01T12:00:00+00:00' },
+              ],
+            },
+          }),
+      });
+    });
+
+  const fetchFromRegistry = (registry: string) =>
+    fetchPackage('vendor/mirrored', 'stable', true, undefined, true, false, undefined, {
+      repositories: getComposerRepositories({}, registry),
+    });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('requests p2 metadata from the mirror instead of packagist.org', async () => {
+    const urls: string[] = [];
+    // @ts-expect-error
+    globalThis.fetch = mirrorFetch('1.0.0', urls);
+
+    const result = await fetchFromRegistry('https://mirror-a.example.com/packagist');
+
+    expect(result.latestVersion).toBe('1.0.0');
+    expect(urls).toEqual(['https://mirror-a.example.com/packagist/p2/vendor/mirrored.json']);
+  });
+
+  test('keeps cached metadata separate per registry', async () => {
+    // @ts-expect-error
+    globalThis.fetch = mirrorFetch('1.0.0');
+    await fetchFromRegistry('https://mirror-a.example.com/packagist');
+
+    // @ts-expect-error
+    globalThis.fetch = mirrorFetch('2.0.0');
+    const result = await fetchFromRegistry('https://mirror-b.example.com');
+
+    expect(result.latestVersion).toBe('2.0.0');
+    const mirrorA = getRepositoryCacheKey(
+      getComposerRepositories({}, 'https://mirror-a.example.com/packagist')[0]!,
+    );
+    expect(mirrorA).toStartWith('mirror-a.example.com-');
+    expect(await getCacheEntry(`${mirrorA}_vendor_mirrored`, 1)).not.toBeNull();
+    expect(await getCacheEntry('mirror-b.example.com_vendor_mirrored', 1)).not.toBeNull();
+  });
+});
+
+describe('fetchPackage in offline mode', () => {
+  const originalFetch = globalThis.fetch;
+
+  const fetchOffline = (packageName: string) =>
+    fetchPackage(packageName, 'stable', true, undefined, true, false, undefined, {
+      offline: true,
+    });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('answers from the cache without calling fetch', async () => {
+    const cachedValue = {
+      packages: {
+        'vendor/offline': [
+          { version: '1.2.0', version_normalized: '1.2.0.0', time: '2024-01-01T12:00:00+00:00' },
+        ],
+      },
+    };
+    await setCache('repo.packagist.org_vendor_offline', cachedValue, 1);
+    const fetchMock = mock(() => Promise.reject(new Error('network used')));
+    // @ts-expect-error
+    globalThis.fetch = fetchMock;
+
+    const before = Date.now();
+    const result = await fetchOffline('vendor/offline');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result?.latestVersion).toBe('1.2.0');
+    expect(result?.cachedAt).toBeDefined();
+    expect(result!.cachedAt!).toBeLessThan(before + 1);
+  });
+
+  test('uses cached data regardless of its age', async () => {
+    const { utimes } = await import('node:fs/promises');
+    const cachedValue = {
+      packages: {
+        'vendor/stale': [
+          { version: '3.0.0', version_normalized: '3.0.0.0', time: '2023-01-01T12:00:00+00:00' },
+        ],
+      },
+    };
+    await setCache('repo.packagist.org_vendor_stale', cachedValue, 1);
+    const lastYear = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
+    await utimes(path.join(TEST_CACHE_DIR, 'repo.packagist.org_vendor_stale.json'), lastYear, lastYear);
+
+    const result = await fetchOffline('vendor/stale');
+    expect(result?.latestVersion).toBe('3.0.0');
+    expect(result?.cachedAt).toBe(lastYear.getTime());
+  });
+
+  test('reports unknown (offline) when nothing is cached', async () => {
+    const fetchMock = mock(() => Promise.reject(new Error('network used')));
+    // @ts-expect-error
+    globalThis.fetch = fetchMock;
+
+    await expect(fetchOffline('vendor/never-fetched')).rejects.toMatchObject({
+      kind: 'offline',
+      message: 'unknown (offline)',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('fetchPackage retries and timeouts', () => {
+  const originalFetch = globalThis.fetch;
+
+  const okResponse = {
+    ok: true,
+    status: 200,
+    headers: new Map(),
+    json: () =>
+      Promise.resolve({
+        packages: {
+          'vendor/package': [
+            { version: '1.1.0', version_normalized: '1.1.0.0', time: '2024-01-01T12:00:00+00:00' },
+          ],
+        },
+      }),
+  };
+
+  const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+    ok: false,
+    status,
+    headers: new Map(Object.entries(headers)),
+    json: () => Promise.resolve({}),
+  });
+
+  const fetchWith = (options: FetchOptions) =>
+    fetchPackage('vendor/package', 'stable', true, undefined, true, true, undefined, {
+      retryDelay: 1,
+      ...options,
+    });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('retries rate-limited and unavailable responses', async () => {
+    const responses = [errorResponse(429), errorResponse(503), okResponse];
+    const fetchMock = mock(() => Promise.resolve(responses.shift()));
+    // @ts-expect-error
+    globalThis.fetch = fetchMock;
+
+    const result = await fetchWith({});
+    expect(result.latestVersion).toBe('1.1.0');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  test('gives up after the configured number of retries', async () => {
+    const fetchMock = mock(() => Promise.resolve(errorResponse(502)));
+    // @ts-expect-error
+    globalThis.fetch = fetchMock;
+
+    await expect(fetchWith({ retries: 2 })).rejects.toMatchObject({ kind: 'http', status: 502 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not retry other server errors', async () => {
+    const fetchMock = mock(() => Promise.resolve(errorResponse(500)));
+    // @ts-expect-error
+    globalThis.fetch = fetchMock;
+
+    await expect(fetchWith({})).rejects.toMatchObject({ kind: 'http', status: 500 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('honors Retry-After', async () => {
+    const responses = [errorResponse(429, { 'Retry-After': '0' }), okResponse];
+    // @ts-expect-error
+    globalThis.fetch = mock(() => Promise.resolve(responses.shift()));
+
+    const result = await fetchWith({ retryDelay: 60_000 });
+    expect(result.latestVersion).toBe('1.1.0');
+  });
+
+  test('stops retrying when Retry-After exceeds the deadline', async () => {
+    const fetchMock = mock(() => Promise.resolve(errorResponse(429, { 'Retry-After': '30' })));
+    // @ts-expect-error
+    globalThis.fetch = fetchMock;
+
+    const started = Date.now();
+    await expect(fetchWith({ deadline: Date.now() + 1_000 })).rejects.toMatchObject({
+      kind: 'http',
+      status: 429,
+      message: 'HTTP 429 from repo.packagist.org (rate limited)',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(Date.now() - started).toBeLessThan(1_000);
+  });
+
+  test('aborts requests exceeding the timeout', async () => {
+    // @ts-expect-error
+    globalThis.fetch = mock(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        }),
+    );
+
+    await expect(fetchWith({ timeout: 20 })).rejects.toMatchObject({
+      kind: 'timeout',
+      message: 'Timed out waiting for repo.packagist.org',
+    });
+  });
+
+  test('makes no requests once the deadline has passed', async () => {
+    const fetchMock = mock(() => Promise.resolve(okResponse));
+    // @ts-expect-error
+    globalThis.fetch = fetchMock;
+
+    await expect(fetchWith({ deadline: Date.now() - 1 })).rejects.toMatchObject({
+      kind: 'timeout',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
   });
 });
 
@@ -422,13 +1119,53 @@ describe('fetchAllPackages', () => {
       'vendor/package2': '^2.0',
     };
 
-    const results = await fetchAllPackagesNoCache(packages);
+    const { results, errors } = await fetchAllPackagesNoCache(packages);
     expect(results.size).toBe(2);
+    expect(errors.size).toBe(0);
     expect(results.has('vendor/package1')).toBe(true);
     expect(results.has('vendor/package2')).toBe(true);
   });
 
-  test('handles failed fetches gracefully', async () => {
+  test('uses the stability given per package', async () => {
+    // @ts-expect-error
+    globalThis.fetch = mock((url: string) => {
+      const packageName = url.replace('https://repo.packagist.org/p2/', '').replace('.json', '');
+      return Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            packages: {
+              [packageName]: [
+                {
+                  version: '2.1.0-beta2',
+                  version_normalized: '2.1.0.0-beta2',
+                  time: '2024-02-01T12:00:00+00:00',
+                },
+                {
+                  version: '2.0.0',
+                  version_normalized: '2.0.0.0',
+                  time: '2024-01-01T12:00:00+00:00',
+                },
+              ],
+            },
+          }),
+      });
+    });
+
+    const { results } = await fetchAllPackages(
+      { 'vendor/beta': '^2.0@beta', 'vendor/stable': '^2.0' },
+      'stable',
+      false,
+      true,
+      true,
+      undefined,
+      { stabilities: { 'vendor/beta': 'beta' } },
+    );
+    expect(results.get('vendor/beta')?.latestVersion).toBe('2.1.0-beta2');
+    expect(results.get('vendor/stable')?.latestVersion).toBe('2.0.0');
+  });
+
+  test('reports failed fetches as errors', async () => {
     let callCount = 0;
     // @ts-expect-error
     globalThis.fetch = mock(() => {
@@ -458,13 +1195,277 @@ describe('fetchAllPackages', () => {
       'vendor/package2': '^2.0',
     };
 
-    const results = await fetchAllPackagesNoCache(packages);
+    const { results, errors } = await fetchAllPackagesNoCache(packages);
     expect(results.size).toBe(1);
     expect(results.has('vendor/package2')).toBe(true);
+    expect(errors.get('vendor/package1')?.kind).toBe('http');
+  });
+
+  const latencyFetch = (latencies: Record<string, number>, stats = { inFlight: 0, max: 0 }) =>
+    mock(async (url: string) => {
+      const packageName = url.replace('https://repo.packagist.org/p2/', '').replace('.json', '');
+      stats.inFlight++;
+      stats.max = Math.max(stats.max, stats.inFlight);
+      await new Promise((resolve) => setTimeout(resolve, latencies[packageName] ?? 5));
+      stats.inFlight--;
+      return {
+        ok: true,
+        status: 200,
+        headers: new Map(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              [packageName]: [
+                { version: '1.0.0', version_normalized: '1.0.0.0', time: '2024-01-01T12:00:00+00:00' },
+              ],
+            },
+          }),
+      };
+    });
+
+  test('keeps the configured number of lookups in flight', async () => {
+    const stats = { inFlight: 0, max: 0 };
+    const packages: Record<string, string> = {};
+    const latencies: Record<string, number> = {};
+    for (let i = 0; i < 24; i++) {
+      packages[`vendor/package${i}`] = '^1.0';
+      latencies[`vendor/package${i}`] = i % 6 === 0 ? 150 : 10;
+    }
+    // @ts-expect-error
+    globalThis.fetch = latencyFetch(latencies, stats);
+
+    const started = performance.now();
+    const { results } = await fetchAllPackages(
+      packages,
+      'stable',
+      true,
+      true,
+      NO_CACHE,
+      undefined,
+      { concurrency: 6 },
+    );
+    const elapsed = performance.now() - started;
+
+    expect(results.size).toBe(24);
+    expect(stats.max).toBe(6);
+    // Fixed batches of 6 would wait for a slow lookup four times (~600 ms).
+    expect(elapsed).toBeLessThan(4 * 150 * 0.6);
+  });
+
+  test('emits started, finished and failed progress events', async () => {
+    // @ts-expect-error
+    globalThis.fetch = mock((url: string) =>
+      url.includes('broken')
+        ? Promise.resolve({ ok: false, status: 500, headers: new Map(), json: () => Promise.resolve({}) })
+        : latencyFetch({})(url),
+    );
+
+    const events: FetchProgressEvent[] = [];
+    await fetchAllPackages(
+      { 'vendor/working': '^1.0', 'vendor/broken': '^1.0' },
+      'stable',
+      true,
+      true,
+      NO_CACHE,
+      undefined,
+      { onProgress: (event) => events.push(event) },
+    );
+
+    expect(events.filter((e) => e.type === 'started').map((e) => e.name)).toEqual([
+      'vendor/working',
+      'vendor/broken',
+    ]);
+    expect(events.find((e) => e.type === 'failed')).toMatchObject({
+      name: 'vendor/broken',
+      total: 2,
+      error: { kind: 'http', status: 500 },
+    });
+    expect(events.find((e) => e.type === 'finished')?.name).toBe('vendor/working');
+    expect(events.at(-1)?.completed).toBe(2);
+  });
+
+  test('reports packages left after the deadline as timeouts', async () => {
+    const fetchMock = mock(() => Promise.reject(new Error('network used')));
+    // @ts-expect-error
+    globalThis.fetch = fetchMock;
+
+    const { results, errors } = await fetchAllPackages(
+      { 'vendor/package1': '^1.0', 'vendor/package2': '^2.0' },
+      'stable',
+      true,
+      true,
+      NO_CACHE,
+      undefined,
+      { deadline: Date.now() - 1 },
+    );
+
+    expect(results.size).toBe(0);
+    expect(errors.get('vendor/package1')?.kind).toBe('timeout');
+    expect(errors.get('vendor/package2')?.kind).toBe('timeout');
+    expect(fetchMock).not.toHaveBeenCalled();
   });
 
   test('returns empty map for empty input', async () => {
-    const results = await fetchAllPackagesNoCache({});
+    const { results, errors } = await fetchAllPackagesNoCache({});
     expect(results.size).toBe(0);
+    expect(errors.size).toBe(0);
+  });
+});
+
+describe('fetchPackage with custom repositories', () => {
+  const FIXTURES_DIR = path.join(import.meta.dir, 'fixtures', 'repositories');
+
+  let server: ReturnType<typeof Bun.serve>;
+  let requests: string[] = [];
+  let authorizations: (string | null)[] = [];
+  /** Paths answered with a server error once */
+  const failures = new Set<string>();
+
+  const repository = (dir: string, overrides: Partial<Repository> = {}): Repository => ({
+    url: `${server.url.origin}/${dir}`,
+    canonical: true,
+    only: [],
+    exclude: [],
+    packagist: false,
+    ...overrides,
+  });
+
+  const fetchFrom = (packageName: string, repositories: Repository[]) =>
+    fetchPackage(packageName, 'stable', true, undefined, true, NO_CACHE, undefined, {
+      repositories,
+    });
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const { pathname } = new URL(request.url);
+        requests.push(pathname);
+        authorizations.push(request.headers.get('Authorization'));
+        if (failures.delete(pathname)) {
+          return new Response('', { status: 500 });
+        }
+        const file = Bun.file(path.join(FIXTURES_DIR, pathname));
+        return (await file.exists()) ? new Response(file) : new Response('', { status: 404 });
+      },
+    });
+  });
+
+  afterEach(() => {
+    requests = [];
+    authorizations = [];
+    failures.clear();
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('resolves packages through the metadata-url template', async () => {
+    const result = await fetchFrom('acme/private', [repository('satis')]);
+    expect(result?.latestVersion).toBe('2.1.0');
+    expect(result?.phpRequirement).toBe('>=8.1');
+    expect(requests).toEqual(['/satis/packages.json', '/satis/p2/acme/private.json']);
+  });
+
+  test('skips metadata requests for packages not listed as available', async () => {
+    await expect(fetchFrom('acme/unknown', [repository('satis')])).rejects.toMatchObject({
+      kind: 'not-found',
+    });
+    expect(requests).toEqual(['/satis/packages.json']);
+  });
+
+  test('reads packages inlined in packages.json', async () => {
+    const result = await fetchFrom('acme/legacy', [repository('inline')]);
+    expect(result?.latestVersion).toBe('1.1.0');
+  });
+
+  test('retries packages.json after a failed request', async () => {
+    const satis = repository('satis');
+    failures.add('/satis/packages.json');
+
+    await expect(fetchFrom('acme/private', [satis])).rejects.toMatchObject({ kind: 'http' });
+    const result = await fetchFrom('acme/private', [satis]);
+
+    expect(result?.latestVersion).toBe('2.1.0');
+    expect(requests).toEqual([
+      '/satis/packages.json',
+      '/satis/packages.json',
+      '/satis/p2/acme/private.json',
+    ]);
+  });
+
+  test('canonical repository hides versions from lower priority repositories', async () => {
+    const result = await fetchFrom('acme/shared', [repository('satis'), repository('extra')]);
+    expect(result?.latestVersion).toBe('1.2.0');
+    expect(requests).not.toContain('/extra/p2/acme/shared.json');
+  });
+
+  test('non-canonical repository lets lower priority repositories add versions', async () => {
+    const result = await fetchFrom('acme/shared', [
+      repository('satis', { canonical: false }),
+      repository('extra'),
+    ]);
+    expect(result?.latestVersion).toBe('1.3.0');
+  });
+
+  test('falls through to the next repository when the package is missing', async () => {
+    const result = await fetchFrom('acme/legacy', [repository('satis'), repository('inline')]);
+    expect(result?.latestVersion).toBe('1.1.0');
+  });
+
+  test('honors only and exclude filters', async () => {
+    const onlyResult = await fetchFrom('acme/shared', [
+      repository('satis', { only: ['acme/private'] }),
+      repository('extra'),
+    ]);
+    expect(onlyResult?.latestVersion).toBe('1.3.0');
+
+    await expect(
+      fetchFrom('acme/private', [repository('satis', { exclude: ['acme/*'] })]),
+    ).rejects.toMatchObject({ kind: 'not-found' });
+  });
+
+  test('sends credentials configured for the repository host', async () => {
+    const result = await fetchPackage(
+      'acme/private',
+      'stable',
+      true,
+      undefined,
+      true,
+      NO_CACHE,
+      undefined,
+      {
+        repositories: [repository('satis')],
+        auth: { bearer: { [server.url.host]: 'secret-token' } },
+      },
+    );
+
+    expect(result?.latestVersion).toBe('2.1.0');
+    expect(authorizations).toEqual(['Bearer secret-token', 'Bearer secret-token']);
+  });
+
+  test('sends credentials embedded in the repository url', async () => {
+    await fetchFrom('acme/private', [
+      repository('satis', { credentials: { username: 'user', password: 'pass' } }),
+    ]);
+
+    expect(authorizations[0]).toBe(`Basic ${btoa('user:pass')}`);
+  });
+
+  test('never writes credentials to the cache', async () => {
+    const { readdir, readFile } = await import('node:fs/promises');
+
+    await fetchPackage('acme/private', 'stable', true, undefined, true, false, undefined, {
+      repositories: [repository('satis')],
+      auth: { bearer: { [server.url.host]: 'secret-token' } },
+    });
+
+    const files = await readdir(TEST_CACHE_DIR);
+    expect(files.length).toBeGreaterThan(0);
+    for (const file of files) {
+      const content = await readFile(path.join(TEST_CACHE_DIR, file), 'utf-8');
+      expect(content).not.toContain('secret-token');
+    }
   });
 });
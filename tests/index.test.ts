@@ -2,7 +2,9 @@ import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:
 import { chmod, mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
 import os from 'node:os';
 import path from 'node:path';
+import prompts from 'prompts';
 import { run } from '../src/index';
+import { getContentHash } from '../src/lock';
 import type { CLIOptions } from '../src/types';
 
 const DEFAULT_OPTIONS: CLIOptions = {
@@ -15,6 +17,10 @@ const DEFAULT_OPTIONS: CLIOptions = {
   exclude: [],
   dryRun: false,
   noCache: true,
+  offline: false,
+  strict: false,
+  transitive: false,
+  bumpPhp: false,
 };
 
 describe('run', () => {
@@ -164,4 +170,863 @@ describe('run', () => {
     logSpy.mockRestore();
     errorSpy.mockRestore();
   });
+
+  test('reports cache age and unknown packages in offline mode', async () => {
+    const cacheDir = path.join(tempDir, 'cache');
+    const originalCacheDir = process.env.COMZE_CACHE_DIR;
+    process.env.COMZE_CACHE_DIR = cacheDir;
+
+    await mkdir(cacheDir, { recursive: true });
+    await writeFile(
+      path.join(cacheDir, 'repo.packagist.org_vendor_cached.json'),
+      JSON.stringify({
+        version: 1,
+        timestamp: Date.now(),
+        value: {
+          packages: {
+            'vendor/cached': [
+              { version: '1.5.0', version_normalized: '1.5.0.0', time: '2024-01-01T12:00:00+00:00' },
+            ],
+          },
+        },
+      }),
+    );
+    await writeFile(
+      path.join(tempDir, 'composer.json'),
+      JSON.stringify({ require: { 'vendor/cached': '^1.0', 'vendor/missing': '^2.0' } }),
+    );
+
+    const fetchMock = mock(() => Promise.reject(new Error('network used')));
+    // @ts-expect-error test mock typing
+    globalThis.fetch = fetchMock;
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, noCache: false, offline: true });
+
+    const output = logSpy.mock.calls
+      .flatMap((call) => call.map((value) => String(value)))
+      .join('\n');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(output).toContain('1.5.0');
+    expect(output).toContain('cached just now');
+    expect(output).toContain('Could not check');
+    expect(output).toContain('vendor/missing');
+    expect(output).toContain('unknown (offline)');
+
+    logSpy.mockRestore();
+    if (originalCacheDir === undefined) delete process.env.COMZE_CACHE_DIR;
+    else process.env.COMZE_CACHE_DIR = originalCacheDir;
+  });
+
+  test('exits with code 1 in strict mode when packages could not be checked', async () => {
+    await writeFile(
+      path.join(tempDir, 'composer.json'),
+      JSON.stringify({ require: { 'vendor/broken': '^1.0' } }),
+    );
+
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() =>
+      Promise.resolve({ ok: false, status: 500, headers: new Map(), json: () => Promise.resolve({}) }),
+    );
+
+    const exitSpy = spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      throw new Error(`EXIT:${code ?? 0}`);
+    }) as never);
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+    const errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(run({ ...DEFAULT_OPTIONS, strict: true })).rejects.toThrow('EXIT:1');
+
+    const output = logSpy.mock.calls
+      .flatMap((call) => call.map((value) => String(value)))
+      .join('\n');
+    expect(output).toContain('vendor/broken');
+    expect(output).toContain('HTTP 500');
+
+    exitSpy.mockRestore();
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  test('shows installed versions from composer.lock', async () => {
+    const composer = { require: { 'guzzlehttp/guzzle': '^7.5', 'vendor/behind': '^1.0' } };
+    await writeFile(path.join(tempDir, 'composer.json'), JSON.stringify(composer));
+    await writeFile(
+      path.join(tempDir, 'composer.lock'),
+      JSON.stringify({
+        'content-hash': getContentHash(composer),
+        packages: [
+          { name: 'guzzlehttp/guzzle', version: '7.9.2' },
+          { name: 'vendor/behind', version: '1.1.0' },
+        ],
+      }),
+    );
+
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock((url: string) => {
+      const name = url.replace('https://repo.packagist.org/p2/', '').replace('.json', '');
+      const version = name === 'guzzlehttp/guzzle' ? '7.9.2' : '1.4.0';
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              [name]: [{ version, version_normalized: `${version}.0`, time: '2024-01-01T12:00:00+00:00' }],
+            },
+          }),
+      });
+    });
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run(DEFAULT_OPTIONS);
+
+    const output = logSpy.mock.calls
+      .flatMap((call) => call.map((value) => String(value)))
+      .join('\n');
+
+    expect(output).not.toContain('composer.lock');
+    expect(output).toContain('lock current');
+    expect(output).toContain('composer update');
+
+    logSpy.mockRestore();
+  });
+
+  test('warns about missing and out-of-sync lock files', async () => {
+    await writeFile(path.join(tempDir, 'composer.json'), JSON.stringify({ require: {} }));
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run(DEFAULT_OPTIONS);
+    await writeFile(
+      path.join(tempDir, 'composer.lock'),
+      JSON.stringify({ 'content-hash': 'outdated', packages: [] }),
+    );
+    await run(DEFAULT_OPTIONS);
+
+    const output = logSpy.mock.calls
+      .flatMap((call) => call.map((value) => String(value)))
+      .join('\n');
+
+    expect(output).toContain('No composer.lock found');
+    expect(output).toContain('out of sync');
+
+    logSpy.mockRestore();
+  });
+
+  test('reports indirect updates from composer.lock without writing them', async () => {
+    const composer = { require: { 'guzzlehttp/guzzle': '^7.9' } };
+    const composerPath = path.join(tempDir, 'composer.json');
+    await writeFile(composerPath, JSON.stringify(composer));
+    await writeFile(
+      path.join(tempDir, 'composer.lock'),
+      JSON.stringify({
+        'content-hash': getContentHash(composer),
+        packages: [
+          { name: 'guzzlehttp/guzzle', version: '7.9.2', require: { 'guzzlehttp/psr7': '^2.6' } },
+          { name: 'guzzlehttp/psr7', version: '2.6.0' },
+        ],
+      }),
+    );
+
+    const latest: Record<string, string> = {
+      'guzzlehttp/guzzle': '7.9.2',
+      'guzzlehttp/psr7': '2.7.0',
+    };
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock((url: string) => {
+      const name = url.replace('https://repo.packagist.org/p2/', '').replace('.json', '');
+      const version = latest[name]!;
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              [name]: [{ version, version_normalized: `${version}.0`, time: '2024-01-01T12:00:00+00:00' }],
+            },
+          }),
+      });
+    });
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, transitive: true, write: true });
+
+    const output = logSpy.mock.calls
+      .flatMap((call) => call.map((value) => String(value)))
+      .join('\n');
+
+    expect(output).toContain('Including 1 indirect dependency');
+    expect(output).toMatch(/guzzlehttp\/psr7.*2\.6\.0.*→.*2\.7\.0.*via guzzlehttp\/guzzle/);
+    expect(JSON.parse(await readFile(composerPath, 'utf-8'))).toEqual({
+      require: { 'guzzlehttp/guzzle': '^7.9.2' },
+    });
+
+    logSpy.mockRestore();
+  });
+
+  test('still writes conflicting updates when not interactive', async () => {
+    const composerPath = path.join(tempDir, 'composer.json');
+    await writeFile(
+      composerPath,
+      JSON.stringify({ require: { 'acme/framework': '^1.0', 'acme/console': '^1.0' } }),
+    );
+
+    const metadata: Record<string, object> = {
+      'acme/framework': {
+        version: '1.5.0',
+        version_normalized: '1.5.0.0',
+        time: '2024-01-01T12:00:00+00:00',
+        require: { 'acme/console': '^2.0' },
+      },
+      'acme/console': { version: '1.2.0', version_normalized: '1.2.0.0', time: '2024-01-01T12:00:00+00:00' },
+    };
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock((url: string) => {
+      const name = url.replace('https://repo.packagist.org/p2/', '').replace('.json', '');
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ packages: { [name]: [metadata[name]] } }),
+      });
+    });
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, write: true });
+
+    const output = logSpy.mock.calls
+      .flatMap((call) => call.map((value) => String(value)))
+      .join('\n');
+
+    expect(output).toContain('requires acme/console ^2.0 but it would be updated to 1.2.0');
+    expect(JSON.parse(await readFile(composerPath, 'utf-8'))).toEqual({
+      require: { 'acme/framework': '^1.5.0', 'acme/console': '^1.2.0' },
+    });
+
+    logSpy.mockRestore();
+  });
+
+  test('checks PHP compatibility against config.platform.php', async () => {
+    await writeFile(
+      path.join(tempDir, 'composer.json'),
+      JSON.stringify({
+        require: { php: '^8.1', 'vendor/package': '^1.0' },
+        config: { platform: { php: '8.2.12' } },
+      }),
+    );
+
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                {
+                  version: '1.6.0',
+                  version_normalized: '1.6.0.0',
+                  time: '2024-02-01T12:00:00+00:00',
+                  require: { php: '>=8.3' },
+                },
+                {
+                  version: '1.5.0',
+                  version_normalized: '1.5.0.0',
+                  time: '2024-01-01T12:00:00+00:00',
+                  require: { php: '>=8.2' },
+                },
+              ],
+            },
+          }),
+      }),
+    );
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run(DEFAULT_OPTIONS);
+
+    const output = logSpy.mock.calls
+      .flatMap((call) => call.map((value) => String(value)))
+      .join('\n');
+
+    expect(output).toContain('PHP: 8.2.12 (config.platform.php)');
+    expect(output).toMatch(/vendor\/package.*1\.5\.0.*1\.6\.0 skipped \(php\)/);
+
+    logSpy.mockRestore();
+  });
+
+  test('skips versions requiring extensions the project does not provide', async () => {
+    await writeFile(
+      path.join(tempDir, 'composer.json'),
+      JSON.stringify({ require: { 'ext-mbstring': '*', 'vendor/package': '^1.0' } }),
+    );
+
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                {
+                  version: '1.6.0',
+                  version_normalized: '1.6.0.0',
+                  time: '2024-02-01T12:00:00+00:00',
+                  require: { 'ext-intl': '*', 'ext-mbstring': '*' },
+                },
+                {
+                  version: '1.5.0',
+                  version_normalized: '1.5.0.0',
+                  time: '2024-01-01T12:00:00+00:00',
+                  require: { 'ext-mbstring': '*' },
+                },
+              ],
+            },
+          }),
+      }),
+    );
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run(DEFAULT_OPTIONS);
+
+    const output = logSpy.mock.calls
+      .flatMap((call) => call.map((value) => String(value)))
+      .join('\n');
+
+    expect(output).toMatch(/vendor\/package.*1\.5\.0.*1\.6\.0 skipped \(ext-intl\)/);
+
+    logSpy.mockRestore();
+  });
+
+  test('does not check extensions without composer.lock or declared extensions', async () => {
+    await writeFile(
+      path.join(tempDir, 'composer.json'),
+      JSON.stringify({ require: { 'vendor/package': '^1.0' } }),
+    );
+
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                {
+                  version: '1.6.0',
+                  version_normalized: '1.6.0.0',
+                  time: '2024-02-01T12:00:00+00:00',
+                  require: { 'ext-intl': '*', 'ext-mbstring': '*' },
+                },
+                {
+                  version: '1.5.0',
+                  version_normalized: '1.5.0.0',
+                  time: '2024-01-01T12:00:00+00:00',
+                  require: { 'ext-mbstring': '*' },
+                },
+              ],
+            },
+          }),
+      }),
+    );
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run(DEFAULT_OPTIONS);
+
+    const output = logSpy.mock.calls.flatMap((call) => call.map((value) => String(value))).join('\n');
+    expect(output).toMatch(/vendor\/package.*1\.6\.0/);
+    expect(output).not.toContain('skipped');
+
+    logSpy.mockRestore();
+  });
+
+  test('flags updates dropping PHP versions covered by require.php', async () => {
+    await writeFile(
+      path.join(tempDir, 'composer.json'),
+      JSON.stringify({ require: { php: '>=8.1 <8.5', 'vendor/package': '^1.0' } }),
+    );
+
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                {
+                  version: '1.6.0',
+                  version_normalized: '1.6.0.0',
+                  time: '2024-02-01T12:00:00+00:00',
+                  require: { php: '>=8.1 <8.4' },
+                },
+                {
+                  version: '1.5.0',
+                  version_normalized: '1.5.0.0',
+                  time: '2024-01-01T12:00:00+00:00',
+                  require: { php: '>=8.1' },
+                },
+              ],
+            },
+          }),
+      }),
+    );
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, phpMatrix: true });
+
+    const output = logSpy.mock.calls
+      .flatMap((call) => call.map((value) => String(value)))
+      .join('\n');
+
+    expect(output).toContain('PHP matrix: 8.1 8.2 8.3 8.4');
+    expect(output).toMatch(/vendor\/package.*1\.6\.0.*drops php 8\.4/);
+
+    logSpy.mockRestore();
+  });
+
+  test('flags dropped PHP versions without the matrix', async () => {
+    await writeFile(
+      path.join(tempDir, 'composer.json'),
+      JSON.stringify({ require: { php: '>=8.1 <8.5', 'vendor/package': '^1.0' } }),
+    );
+
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                {
+                  version: '1.6.0',
+                  version_normalized: '1.6.0.0',
+                  time: '2024-02-01T12:00:00+00:00',
+                  require: { php: '>=8.1 <8.4' },
+                },
+                {
+                  version: '1.5.0',
+                  version_normalized: '1.5.0.0',
+                  time: '2024-01-01T12:00:00+00:00',
+                  require: { php: '>=8.1' },
+                },
+              ],
+            },
+          }),
+      }),
+    );
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run(DEFAULT_OPTIONS);
+
+    const output = logSpy.mock.calls.flatMap((call) => call.map((value) => String(value))).join('\n');
+    expect(output).not.toContain('PHP matrix');
+    expect(output).toMatch(/vendor\/package.*1\.6\.0.*drops php 8\.4/);
+
+    logSpy.mockRestore();
+  });
+
+  test('flags only PHP versions the installed release supports', async () => {
+    const composer = { require: { php: '>=8.1 <8.5', 'vendor/package': '^1.0' } };
+    await writeFile(path.join(tempDir, 'composer.json'), JSON.stringify(composer));
+    await writeFile(
+      path.join(tempDir, 'composer.lock'),
+      JSON.stringify({
+        'content-hash': getContentHash(composer),
+        packages: [{ name: 'vendor/package', version: '1.5.0', require: { php: '>=8.1 <8.4' } }],
+      }),
+    );
+
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                {
+                  version: '1.6.0',
+                  version_normalized: '1.6.0.0',
+                  time: '2024-02-01T12:00:00+00:00',
+                  require: { php: '>=8.2 <8.4' },
+                },
+              ],
+            },
+          }),
+      }),
+    );
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, phpMatrix: ['8.2', '8.3'] });
+
+    const output = logSpy.mock.calls.flatMap((call) => call.map((value) => String(value))).join('\n');
+    expect(output).toMatch(/vendor\/package.*1\.6\.0.*drops php 8\.1 /);
+    expect(output).toContain('(drops 8.1)');
+
+    logSpy.mockRestore();
+  });
+
+  test('raises require.php to unlock versions skipped due to PHP', async () => {
+    const composerPath = path.join(tempDir, 'composer.json');
+    await writeFile(
+      composerPath,
+      JSON.stringify({ require: { php: '^8.1', 'vendor/package': '^1.0' } }),
+    );
+
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                {
+                  version: '1.6.0',
+                  version_normalized: '1.6.0.0',
+                  time: '2024-02-01T12:00:00+00:00',
+                  require: { php: '>=8.2' },
+                },
+                {
+                  version: '1.5.0',
+                  version_normalized: '1.5.0.0',
+                  time: '2024-01-01T12:00:00+00:00',
+                  require: { php: '>=8.1' },
+                },
+              ],
+            },
+          }),
+      }),
+    );
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run(DEFAULT_OPTIONS);
+    let output = logSpy.mock.calls.flatMap((call) => call.map((value) => String(value))).join('\n');
+    expect(output).toContain('Raising php to ^8.2 unlocks 1 update');
+
+    logSpy.mockClear();
+    await run({ ...DEFAULT_OPTIONS, write: true, bumpPhp: true });
+    output = logSpy.mock.calls.flatMap((call) => call.map((value) => String(value))).join('\n');
+    expect(output).toMatch(/vendor\/package.*1\.6\.0/);
+    expect(JSON.parse(await readFile(composerPath, 'utf-8'))).toEqual({
+      require: { php: '^8.2', 'vendor/package': '^1.6.0' },
+    });
+
+    logSpy.mockRestore();
+  });
+
+  test('keeps require.php when no unlocked update is selected', async () => {
+    const composerPath = path.join(tempDir, 'composer.json');
+    await writeFile(
+      composerPath,
+      JSON.stringify({
+        require: { php: '^8.1', 'vendor/package': '^1.0', 'vendor/other': '^1.0' },
+      }),
+    );
+
+    const metadata: Record<string, object[]> = {
+      'vendor/package': [
+        {
+          version: '1.6.0',
+          version_normalized: '1.6.0.0',
+          time: '2024-02-01T12:00:00+00:00',
+          require: { php: '>=8.2' },
+        },
+        { version: '1.5.0', version_normalized: '1.5.0.0', time: '2024-01-01T12:00:00+00:00' },
+      ],
+      'vendor/other': [
+        { version: '1.3.0', version_normalized: '1.3.0.0', time: '2024-01-01T12:00:00+00:00' },
+      ],
+    };
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock((url: string) => {
+      const name = url.replace('https://repo.packagist.org/p2/', '').replace('.json', '');
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ packages: { [name]: metadata[name] } }),
+      });
+    });
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+    prompts.inject([['vendor/other']]);
+
+    await run({ ...DEFAULT_OPTIONS, interactive: true, write: true, bumpPhp: true });
+
+    expect(JSON.parse(await readFile(composerPath, 'utf-8')).require).toEqual({
+      php: '^8.1',
+      'vendor/package': '^1.0',
+      'vendor/other': '^1.3.0',
+    });
+
+    logSpy.mockRestore();
+  });
+
+  test('reports packages whose lookup fails after raising require.php', async () => {
+    const composerPath = path.join(tempDir, 'composer.json');
+    await writeFile(
+      composerPath,
+      JSON.stringify({ require: { php: '^8.1', 'vendor/package': '^1.0' } }),
+    );
+
+    let calls = 0;
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() => {
+      calls++;
+      if (calls > 1) return Promise.resolve({ ok: false, status: 404, headers: new Headers() });
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                {
+                  version: '1.6.0',
+                  version_normalized: '1.6.0.0',
+                  time: '2024-02-01T12:00:00+00:00',
+                  require: { php: '>=8.2' },
+                },
+                { version: '1.5.0', version_normalized: '1.5.0.0', time: '2024-01-01T12:00:00+00:00' },
+              ],
+            },
+          }),
+      });
+    });
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, write: true, bumpPhp: true });
+
+    const output = logSpy.mock.calls.flatMap((call) => call.map((value) => String(value))).join('\n');
+    expect(output).toContain('Could not check');
+    expect(output).toMatch(/✗.*vendor\/package/);
+    expect(JSON.parse(await readFile(composerPath, 'utf-8')).require).toEqual({
+      php: '^8.1',
+      'vendor/package': '^1.0',
+    });
+
+    logSpy.mockRestore();
+  });
+
+  test('rewrites constraints with the range strategies from composer.json', async () => {
+    const composerPath = path.join(tempDir, 'composer.json');
+    await writeFile(
+      composerPath,
+      JSON.stringify({
+        require: { 'acme/library': '^1.0', 'acme/app': '^1.0' },
+        extra: { comze: { rangeStrategy: 'widen', rangeStrategies: { 'acme/app': 'bump' } } },
+      }),
+    );
+
+    const metadata: Record<string, object[]> = {
+      'acme/library': [
+        { version: '2.1.0', version_normalized: '2.1.0.0', time: '2024-02-01T12:00:00+00:00' },
+      ],
+      'acme/app': [
+        { version: '2.0.0', version_normalized: '2.0.0.0', time: '2024-02-01T12:00:00+00:00' },
+        { version: '1.4.0', version_normalized: '1.4.0.0', time: '2024-01-01T12:00:00+00:00' },
+      ],
+    };
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock((url: string) => {
+      const name = url.replace('https://repo.packagist.org/p2/', '').replace('.json', '');
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ packages: { [name]: metadata[name] } }),
+      });
+    });
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, major: true, write: true });
+
+    const output = logSpy.mock.calls
+      .flatMap((call) => call.map((value) => String(value)))
+      .join('\n');
+
+    expect(output).toContain('range: widen');
+    expect(JSON.parse(await readFile(composerPath, 'utf-8')).require).toEqual({
+      'acme/library': '^1.0 || ^2.0',
+      'acme/app': '^1.0',
+    });
+
+    logSpy.mockRestore();
+  });
+
+  test('honors inline stability flags per package', async () => {
+    const composerPath = path.join(tempDir, 'composer.json');
+    await writeFile(
+      composerPath,
+      JSON.stringify({
+        require: { 'acme/beta': '^1.0@beta', 'acme/stable': '^1.0@stable' },
+        'minimum-stability': 'dev',
+      }),
+    );
+
+    const versions = [
+      { version: '1.6.0-beta1', version_normalized: '1.6.0.0-beta1', time: '2024-02-01T12:00:00+00:00' },
+      { version: '1.5.0', version_normalized: '1.5.0.0', time: '2024-01-01T12:00:00+00:00' },
+    ];
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock((url: string) => {
+      const name = url.replace('https://repo.packagist.org/p2/', '').replace('.json', '');
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ packages: { [name]: versions } }),
+      });
+    });
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, write: true });
+
+    expect(JSON.parse(await readFile(composerPath, 'utf-8')).require).toEqual({
+      'acme/beta': '^1.6.0-beta1@beta',
+      'acme/stable': '^1.5.0@stable',
+    });
+
+    logSpy.mockRestore();
+  });
+
+  test('reports packages whose only update is held by the minimum release age', async () => {
+    const composerPath = path.join(tempDir, 'composer.json');
+    await writeFile(
+      composerPath,
+      JSON.stringify({
+        require: { 'vendor/package': '^3.1' },
+        extra: { comze: { minReleaseAge: '3d' } },
+      }),
+    );
+
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                { version: '3.2.0', version_normalized: '3.2.0.0', time: new Date().toISOString() },
+                { version: '3.1.0', version_normalized: '3.1.0.0', time: '2024-01-01T12:00:00+00:00' },
+              ],
+            },
+          }),
+      }),
+    );
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, write: true });
+
+    const output = logSpy.mock.calls.flatMap((call) => call.map((value) => String(value))).join('\n');
+    expect(output).toContain('Held back by the minimum release age');
+    expect(output).toMatch(/vendor\/package.*\^3\.1.*3\.2\.0 held/);
+    expect(JSON.parse(await readFile(composerPath, 'utf-8')).require).toEqual({
+      'vendor/package': '^3.1',
+    });
+
+    logSpy.mockRestore();
+  });
+
+  test('writes nothing when every newer release is held', async () => {
+    const composerPath = path.join(tempDir, 'composer.json');
+    await writeFile(
+      composerPath,
+      JSON.stringify({
+        require: { 'vendor/package': '^3.0' },
+        extra: { comze: { minReleaseAge: '3d' } },
+      }),
+    );
+
+    const now = Date.now();
+    // @ts-expect-error test mock typing
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                { version: '3.2.0', version_normalized: '3.2.0.0', time: new Date(now).toISOString() },
+                { version: '3.1.0', version_normalized: '3.1.0.0', time: new Date(now - 86_400_000).toISOString() },
+              ],
+            },
+          }),
+      }),
+    );
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, write: true });
+
+    const output = logSpy.mock.calls.flatMap((call) => call.map((value) => String(value))).join('\n');
+    expect(output).toMatch(/vendor\/package.*\^3\.0.*3\.2\.0 held/);
+    expect(output).not.toContain('Updated composer.json');
+    expect(JSON.parse(await readFile(composerPath, 'utf-8')).require).toEqual({
+      'vendor/package': '^3.0',
+    });
+
+    logSpy.mockRestore();
+  });
+
+  test('does not look up Composer platform packages', async () => {
+    await writeFile(
+      path.join(tempDir, 'composer.json'),
+      JSON.stringify({
+        require: { php: '^8.2', 'composer-runtime-api': '^2.2', 'vendor/package': '^1.0' },
+      }),
+    );
+
+    const fetchMock = mock(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            packages: {
+              'vendor/package': [
+                { version: '1.5.0', version_normalized: '1.5.0.0', time: '2024-01-01T12:00:00+00:00' },
+              ],
+            },
+          }),
+      }),
+    );
+    // @ts-expect-error test mock typing
+    globalThis.fetch = fetchMock;
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    await run({ ...DEFAULT_OPTIONS, strict: true });
+
+    const output = logSpy.mock.calls.flatMap((call) => call.map((value) => String(value))).join('\n');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(output).toContain('Checking 1 packages');
+    expect(output).not.toContain('composer-runtime-api');
+
+    logSpy.mockRestore();
+  });
 });
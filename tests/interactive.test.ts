@@ -1,5 +1,6 @@
 import { describe, test, expect } from 'bun:test';
-import { selectPackages } from '../src/interactive';
+import { getPackageChoices, selectPackages } from '../src/interactive';
+import type { PackageInfo } from '../src/types';
 
 describe('selectPackages', () => {
   test('returns empty array for empty input', async () => {
@@ -7,3 +8,29 @@ describe('selectPackages', () => {
     expect(result).toEqual([]);
   });
 });
+
+describe('getPackageChoices', () => {
+  const base: PackageInfo = {
+    name: 'vendor/package',
+    currentVersion: '^1.0',
+    latestVersion: '1.5.0',
+    diffType: 'minor',
+    releaseTime: '2024-01-01T12:00:00+00:00',
+    age: '1 mo',
+    ageMonths: 1,
+  };
+
+  test('pre-selects non-major updates', () => {
+    const choices = getPackageChoices([base, { ...base, name: 'vendor/major', diffType: 'major' }]);
+    expect(choices.map((choice) => choice.selected)).toEqual([true, false]);
+  });
+
+  test('deselects conflicting updates and shows the reason', () => {
+    const [choice] = getPackageChoices([
+      { ...base, conflicts: ['requires symfony/console ^7.0 but composer.json requires ^6.4'] },
+    ]);
+
+    expect(choice?.selected).toBe(false);
+    expect(choice?.description).toBe('requires symfony/console ^7.0 but composer.json requires ^6.4');
+  });
+});
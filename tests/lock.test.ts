@@ -0,0 +1,168 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { createHash } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  getContentHash,
+  getDependencyChains,
+  getLockedExtensions,
+  getLockedVersions,
+  getLockStatus,
+  isLockInSync,
+  readComposerLock,
+} from '../src/lock';
+import type { ComposerJson, ComposerLock } from '../src/types';
+
+const md5 = (value: string) => createHash('md5').update(value).digest('hex');
+
+describe('getContentHash', () => {
+  test('hashes the relevant keys sorted like Composer', () => {
+    const composer: ComposerJson = {
+      require: { php: '^8.2', 'guzzlehttp/guzzle': '^7.5' },
+      name: 'acme/app',
+      description: 'Not part of the hash',
+      autoload: { 'psr-4': { 'App\\': 'src/' } },
+    };
+
+    expect(getContentHash(composer)).toBe(
+      md5('{"name":"acme\\/app","require":{"php":"^8.2","guzzlehttp\\/guzzle":"^7.5"}}'),
+    );
+  });
+
+  test('encodes empty objects as arrays and escapes non-ASCII characters', () => {
+    const composer: ComposerJson = {
+      name: 'acme/café',
+      require: {},
+      extra: { comze: { exclude: [] } },
+    };
+
+    expect(getContentHash(composer)).toBe(
+      md5('{"extra":{"comze":{"exclude":[]}},"name":"acme\\/caf\\u00e9","require":[]}'),
+    );
+  });
+
+  test('includes config.platform but no other config', () => {
+    const composer: ComposerJson = {
+      require: { php: '^8.2' },
+      config: { 'sort-packages': true, platform: { php: '8.2.0' } },
+    };
+
+    expect(getContentHash(composer)).toBe(
+      md5('{"config":{"platform":{"php":"8.2.0"}},"require":{"php":"^8.2"}}'),
+    );
+  });
+});
+
+describe('isLockInSync', () => {
+  test('compares the stored content-hash with composer.json', () => {
+    const composer: ComposerJson = { require: { 'vendor/package': '^1.0' } };
+    const lock = { 'content-hash': getContentHash(composer) };
+
+    expect(isLockInSync(lock, composer)).toBe(true);
+    expect(isLockInSync(lock, { require: { 'vendor/package': '^2.0' } })).toBe(false);
+  });
+});
+
+describe('getLockedVersions', () => {
+  test('collects packages and dev packages by lowercase name', () => {
+    const versions = getLockedVersions({
+      packages: [{ name: 'Vendor/Package', version: 'v1.2.3' }],
+      'packages-dev': [{ name: 'vendor/dev-tool', version: '2.0.0' }],
+    });
+
+    expect(versions.get('vendor/package')).toBe('v1.2.3');
+    expect(versions.get('vendor/dev-tool')).toBe('2.0.0');
+  });
+});
+
+describe('getLockedExtensions', () => {
+  test('collects extensions required by locked packages', () => {
+    expect(
+      getLockedExtensions({
+        packages: [{ name: 'vendor/intl', version: '1.0.0', require: { php: '^8.1', 'ext-Intl': '*' } }],
+        'packages-dev': [{ name: 'vendor/dev', version: '1.0.0', require: { 'ext-xdebug': '^3.0' } }],
+      }),
+    ).toEqual({ 'ext-intl': '*', 'ext-xdebug': '*' });
+  });
+});
+
+describe('getDependencyChains', () => {
+  const lock: ComposerLock = {
+    packages: [
+      { name: 'guzzlehttp/guzzle', version: '7.9.2', require: { php: '^7.2.5 || ^8.0', 'guzzlehttp/psr7': '^2.7' } },
+      { name: 'guzzlehttp/psr7', version: '2.7.0', require: { 'psr/http-message': '^1.1 || ^2.0' } },
+      { name: 'psr/http-message', version: '2.0' },
+      { name: 'acme/orphan', version: '1.0.0' },
+    ],
+    'packages-dev': [
+      { name: 'phpunit/phpunit', version: '11.0.0', require: { 'psr/http-message': '*' } },
+    ],
+  };
+
+  test('returns the chain from a direct requirement', () => {
+    const chains = getDependencyChains(lock, ['guzzlehttp/guzzle']);
+
+    expect(chains.get('guzzlehttp/psr7')).toEqual(['guzzlehttp/guzzle']);
+    expect(chains.get('psr/http-message')).toEqual(['guzzlehttp/guzzle', 'guzzlehttp/psr7']);
+  });
+
+  test('prefers the shortest chain', () => {
+    const chains = getDependencyChains(lock, ['phpunit/phpunit', 'guzzlehttp/guzzle']);
+    expect(chains.get('psr/http-message')).toEqual(['phpunit/phpunit']);
+  });
+
+  test('omits direct requirements and unreachable packages', () => {
+    const chains = getDependencyChains(lock, ['guzzlehttp/guzzle']);
+
+    expect(chains.has('guzzlehttp/guzzle')).toBe(false);
+    expect(chains.has('acme/orphan')).toBe(false);
+    expect(chains.has('php')).toBe(false);
+  });
+});
+
+describe('getLockStatus', () => {
+  test('reports lock-current when the lock already has the latest version', () => {
+    expect(getLockStatus('^7.5', '7.9.2', '7.9.2')).toBe('lock-current');
+    expect(getLockStatus('^7.5', 'v7.9.2', '7.9.2')).toBe('lock-current');
+  });
+
+  test('reports lock-behind when the constraint already allows the latest version', () => {
+    expect(getLockStatus('^7.5', '7.5.0', '7.9.2')).toBe('lock-behind');
+  });
+
+  test('reports constraint-change when the latest version is outside the constraint', () => {
+    expect(getLockStatus('^7.5', '7.9.2', '8.0.0')).toBe('constraint-change');
+  });
+
+  test('returns undefined for branch versions', () => {
+    expect(getLockStatus('^1.0', 'dev-main', '1.2.0')).toBeUndefined();
+  });
+});
+
+describe('readComposerLock', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'comze-lock-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('returns null for missing or invalid lock files', async () => {
+    const lockPath = path.join(tempDir, 'composer.lock');
+    expect(await readComposerLock(lockPath)).toBeNull();
+
+    await writeFile(lockPath, '{invalid');
+    expect(await readComposerLock(lockPath)).toBeNull();
+  });
+
+  test('parses a lock file', async () => {
+    const lockPath = path.join(tempDir, 'composer.lock');
+    await writeFile(lockPath, JSON.stringify({ 'content-hash': 'abc', packages: [] }));
+
+    expect(await readComposerLock(lockPath)).toEqual({ 'content-hash': 'abc', packages: [] });
+  });
+});
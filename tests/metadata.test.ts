@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'bun:test';
+import { readFile } from 'fs/promises';
+import path from 'node:path';
+import { expandMinifiedVersions } from '../src/utils/metadata';
+import type { PackagistVersion } from '../src/types';
+
+const loadFixture = async (): Promise<PackagistVersion[]> => {
+  const raw = await readFile(
+    path.join(import.meta.dir, 'fixtures', 'minified', 'vendor-package.json'),
+    'utf-8',
+  );
+  return JSON.parse(raw).packages['vendor/package'];
+};
+
+describe('expandMinifiedVersions', () => {
+  test('returns empty list for empty input', () => {
+    expect(expandMinifiedVersions([])).toEqual([]);
+  });
+
+  test('keeps the first entry as-is', async () => {
+    const versions = await loadFixture();
+    const expanded = expandMinifiedVersions(versions);
+    expect(expanded[0]).toEqual(versions[0]!);
+  });
+
+  test('inherits keys from previous entries', async () => {
+    const expanded = expandMinifiedVersions(await loadFixture());
+    const v240 = expanded[2] as PackagistVersion & Record<string, unknown>;
+
+    expect(v240.version).toBe('2.4.0');
+    expect(v240.name).toBe('vendor/package');
+    expect(v240.abandoned).toBe('vendor/successor');
+    expect(v240.require).toEqual({ php: '>=8.1', 'psr/log': '^2.0 || ^3.0' });
+  });
+
+  test('replaces changed maps instead of merging them', async () => {
+    const expanded = expandMinifiedVersions(await loadFixture());
+    expect(expanded[3]?.require).toEqual({ php: '>=7.4' });
+  });
+
+  test('removes keys marked as __unset', async () => {
+    const expanded = expandMinifiedVersions(await loadFixture());
+    const [v300, v250, v240, v190] = expanded as (PackagistVersion & Record<string, unknown>)[];
+
+    expect(v300?.suggest).toEqual({ 'ext-intl': 'For localized messages' });
+    expect(v250?.suggest).toEqual({ 'ext-intl': 'For localized messages' });
+    expect(v240).not.toHaveProperty('suggest');
+    expect(v190).not.toHaveProperty('suggest');
+  });
+
+  test('does not mutate the input entries', async () => {
+    const versions = await loadFixture();
+    const snapshot = structuredClone(versions);
+    expandMinifiedVersions(versions);
+    expect(versions).toEqual(snapshot);
+  });
+});
@@ -5,6 +5,14 @@ import {
   extractMaxVersion,
   checkPhpCompatibility,
   isConstraintSatisfied,
+  checkPlatformRequirements,
+  allowsPhpMinor,
+  getCoveredPhpVersions,
+  parsePhpVersionList,
+  getPhpMatrix,
+  getDroppedPhpVersions,
+  suggestPhpBumps,
+  formatPhpBump,
 } from '../src/utils/php';
 
 describe('normalizeComposerConstraint', () => {
@@ -99,6 +107,17 @@ describe('checkPhpCompatibility', () => {
     expect(result.satisfied).toBe(true);
   });
 
+  test('checks an exact platform version', () => {
+    expect(checkPhpCompatibility('8.2.12', '^8.2').satisfied).toBe(true);
+    expect(checkPhpCompatibility('8.2.12', '>=8.3').satisfied).toBe(false);
+  });
+
+  test('handles comma-separated ranges and exclusions', () => {
+    expect(checkPhpCompatibility('^8.1', '>=8.0, <8.4').satisfied).toBe(true);
+    expect(checkPhpCompatibility('^8.4', '>=8.0, <8.4').satisfied).toBe(false);
+    expect(checkPhpCompatibility('8.2.0', '>=8.1, !=8.2.0').satisfied).toBe(false);
+  });
+
   test('compatible when no project PHP constraint', () => {
     const result = checkPhpCompatibility('', '^8.0');
     expect(result.satisfied).toBe(true);
@@ -139,4 +158,135 @@ describe('isConstraintSatisfied', () => {
   test('isConstraintSatisfied > wildcard always satisfied', () => {
     expect(isConstraintSatisfied('10.0.0', '*')).toBe(true);
   });
+
+  test('follows Composer semantics for ranges, exclusions and 0.x carets', () => {
+    expect(isConstraintSatisfied('1.5.0', '>=1.4, <2.0')).toBe(true);
+    expect(isConstraintSatisfied('2.0.0', '>=1.4, <2.0')).toBe(false);
+    expect(isConstraintSatisfied('1.5.0', '^1.0, !=1.5.0')).toBe(false);
+    expect(isConstraintSatisfied('0.5.0', '^0.4')).toBe(false);
+    expect(isConstraintSatisfied('1.2.3.5', '~1.2.3.4')).toBe(true);
+    expect(isConstraintSatisfied('2.0.0-beta1', '<2.0')).toBe(false);
+  });
+});
+
+describe('checkPlatformRequirements', () => {
+  test('reports extensions the project does not provide', () => {
+    expect(
+      checkPlatformRequirements({ php: '^8.1', 'ext-intl': '*' }, { 'ext-mbstring': '*' }),
+    ).toEqual({ satisfied: false, reason: 'ext-intl' });
+  });
+
+  test('accepts declared and core extensions case-insensitively', () => {
+    expect(
+      checkPlatformRequirements(
+        { 'ext-Intl': '*', 'ext-json': '*', 'ext-spl': '*' },
+        { 'ext-intl': '*' },
+      ).satisfied,
+    ).toBe(true);
+  });
+
+  test('checks exact platform versions against the requirement', () => {
+    expect(
+      checkPlatformRequirements({ 'ext-sodium': '^2.0' }, { 'ext-sodium': '1.0.8' }),
+    ).toEqual({ satisfied: false, reason: 'ext-sodium' });
+    expect(checkPlatformRequirements({ 'lib-icu': '>=70' }, { 'lib-icu': '72.1' }).satisfied).toBe(
+      true,
+    );
+  });
+
+  test('assumes undeclared lib-* packages are present', () => {
+    expect(checkPlatformRequirements({ 'lib-pcre': '*' }, {}).satisfied).toBe(true);
+  });
+});
+
+describe('getCoveredPhpVersions', () => {
+  test('lists every known minor allowed by the constraint', () => {
+    expect(getCoveredPhpVersions('^8.1')).toEqual(['8.1', '8.2', '8.3', '8.4', '8.5']);
+    expect(getCoveredPhpVersions('>=8.1 <8.4')).toEqual(['8.1', '8.2', '8.3']);
+    expect(getCoveredPhpVersions('^7.4 || ^8.0')).toEqual(['7.4', '8.0', '8.1', '8.2', '8.3', '8.4', '8.5']);
+  });
+
+  test('includes a minor when only some of its patch releases are allowed', () => {
+    expect(allowsPhpMinor('>=8.1.5', '8.1')).toBe(true);
+    expect(allowsPhpMinor('8.2.12', '8.2')).toBe(true);
+    expect(allowsPhpMinor('8.2.12', '8.3')).toBe(false);
+  });
+});
+
+describe('parsePhpVersionList', () => {
+  test('reduces entries to major.minor and removes duplicates', () => {
+    expect(parsePhpVersionList('8.1, 8.2,8.2.5')).toEqual(['8.1', '8.2']);
+  });
+
+  test('rejects invalid entries', () => {
+    expect(parsePhpVersionList('8')).toBeNull();
+    expect(parsePhpVersionList('8.1,latest')).toBeNull();
+    expect(parsePhpVersionList('')).toBeNull();
+  });
+});
+
+describe('getPhpMatrix', () => {
+  test('evaluates a requirement against each version', () => {
+    expect(getPhpMatrix('>=8.2 <8.4', ['8.1', '8.2', '8.3', '8.4'])).toEqual({
+      '8.1': false,
+      '8.2': true,
+      '8.3': true,
+      '8.4': false,
+    });
+  });
+
+  test('treats a missing requirement as supporting every version', () => {
+    expect(getPhpMatrix(undefined, ['8.1', '8.4'])).toEqual({ '8.1': true, '8.4': true });
+  });
+});
+
+describe('getDroppedPhpVersions', () => {
+  const covered = ['8.1', '8.2', '8.3', '8.4'];
+
+  test('returns versions the current release supports but the update does not', () => {
+    expect(getDroppedPhpVersions('>=8.1', '>=8.2 <8.4', covered)).toEqual(['8.1', '8.4']);
+  });
+
+  test('ignores versions the current release already excludes', () => {
+    expect(getDroppedPhpVersions('>=8.1 <8.4', '>=8.2 <8.4', covered)).toEqual(['8.1']);
+  });
+
+  test('treats a missing requirement as supporting every version', () => {
+    expect(getDroppedPhpVersions(undefined, '>=8.3', covered)).toEqual(['8.1', '8.2']);
+    expect(getDroppedPhpVersions('>=8.1', undefined, covered)).toEqual([]);
+  });
+});
+
+describe('suggestPhpBumps', () => {
+  test('groups skipped versions by the lowest PHP version unlocking them', () => {
+    const bumps = suggestPhpBumps('^8.1', [
+      { name: 'vendor/a', version: '2.0.0', php: '>=8.3' },
+      { name: 'vendor/b', version: '1.4.0', php: '^8.2' },
+      { name: 'vendor/c', version: '3.1.0', php: '>=8.2.0' },
+    ]);
+
+    expect(bumps.map((bump) => bump.version)).toEqual(['8.2', '8.3']);
+    expect(bumps[0]?.packages.map((skip) => skip.name)).toEqual(['vendor/b', 'vendor/c']);
+    expect(bumps[1]?.packages.map((skip) => skip.name)).toEqual(['vendor/a']);
+  });
+
+  test('keeps patch-level minimums', () => {
+    const bumps = suggestPhpBumps('^8.1', [{ name: 'vendor/a', version: '2.0.0', php: '>=8.1.10' }]);
+    expect(bumps.map((bump) => bump.version)).toEqual(['8.1.10']);
+  });
+
+  test('ignores versions that raising PHP cannot unlock', () => {
+    expect(suggestPhpBumps('^8.1', [{ name: 'vendor/a', version: '1.0.0', php: '>=7.2 <8.0' }])).toEqual([]);
+  });
+});
+
+describe('formatPhpBump', () => {
+  test('keeps the style of the current constraint', () => {
+    expect(formatPhpBump('^8.1', '8.2')).toBe('^8.2');
+    expect(formatPhpBump('>=8.1 <8.4', '8.4')).toBe('>=8.4 <9.0');
+  });
+
+  test('falls back to a lower bound when the constraint cannot be rewritten', () => {
+    expect(formatPhpBump('>=8.1 <8.4 !=8.2.0', '8.2')).toBe('>=8.2');
+  });
 });
@@ -0,0 +1,83 @@
+import { describe, test, expect } from 'bun:test';
+import { runPool } from '../src/utils/pool';
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe('runPool', () => {
+  test('processes every item exactly once', async () => {
+    const seen: number[] = [];
+    await runPool([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+      await delay(1);
+      seen.push(item);
+    });
+
+    expect(seen.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  test('never exceeds the concurrency limit and keeps it saturated', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await runPool(Array.from({ length: 12 }, (_, i) => i), 4, async (item) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(item % 3 === 0 ? 15 : 2);
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(4);
+  });
+
+  test('starts the next item as soon as any running item settles', async () => {
+    const finished: number[] = [];
+
+    await runPool([0, 1, 2], 2, async (item) => {
+      await delay(item === 0 ? 40 : 1);
+      finished.push(item);
+    });
+
+    expect(finished).toEqual([1, 2, 0]);
+  });
+
+  test('treats invalid concurrency as 1', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await runPool([1, 2, 3], 0, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(1);
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(1);
+  });
+
+  test('resolves immediately for empty input', async () => {
+    let calls = 0;
+    await runPool([], 5, async () => {
+      calls++;
+    });
+    expect(calls).toBe(0);
+  });
+
+  test('outperforms fixed batching with uneven latencies', async () => {
+    // Every fifth item is slow: fixed batches of 5 wait for it four times
+    // (~4 × 120 ms), while a sliding window overlaps the slow items.
+    const latencies = Array.from({ length: 20 }, (_, i) => (i % 5 === 0 ? 120 : 10));
+    const concurrency = 5;
+
+    const batchedStart = performance.now();
+    for (let i = 0; i < latencies.length; i += concurrency) {
+      await Promise.all(latencies.slice(i, i + concurrency).map((ms) => delay(ms)));
+    }
+    const batched = performance.now() - batchedStart;
+
+    const poolStart = performance.now();
+    await runPool(latencies, concurrency, (ms) => delay(ms));
+    const pooled = performance.now() - poolStart;
+
+    expect(batched).toBeGreaterThanOrEqual(4 * 120);
+    expect(pooled).toBeLessThan(batched * 0.6);
+  });
+});
@@ -5,8 +5,21 @@ import {
   renderFooter,
   formatPackageChoice,
   renderDeprecated,
+  renderDevBranches,
+  renderFailures,
+  renderHeld,
+  createProgressRenderer,
+  renderTransitive,
+  renderPhpBumps,
 } from '../src/ui/render';
-import type { PackageInfo, DeprecatedPackage } from '../src/types';
+import type {
+  PackageInfo,
+  DeprecatedPackage,
+  DevBranchPackage,
+  FailedPackage,
+  HeldPackage,
+  TransitivePackage,
+} from '../src/types';
 
 describe('formatPackageChoice', () => {
   test('formats major update correctly', () => {
@@ -114,6 +127,35 @@ describe('formatPackageChoice', () => {
     expect(result).toContain('deprecated');
     expect(result).toContain('vendor/new-package');
   });
+
+  test('shows a range strategy other than replace', () => {
+    const pkg: PackageInfo = {
+      name: 'vendor/package',
+      currentVersion: '^1.0',
+      latestVersion: '2.0.0',
+      diffType: 'major',
+      releaseTime: new Date().toISOString(),
+      age: '1 d',
+      ageMonths: 0,
+      rangeStrategy: 'widen',
+    };
+    expect(formatPackageChoice(pkg)).toContain('range: widen');
+  });
+
+  test('shows versions held back by the minimum release age', () => {
+    const pkg: PackageInfo = {
+      name: 'vendor/package',
+      currentVersion: '^3.0',
+      latestVersion: '3.1.0',
+      diffType: 'minor',
+      releaseTime: new Date().toISOString(),
+      age: '3 w',
+      ageMonths: 0,
+      heldVersion: '3.2.0',
+      heldAge: '2 d',
+    };
+    expect(formatPackageChoice(pkg)).toContain('3.2.0 held (2 d old)');
+  });
 });
 
 describe('renderTable', () => {
@@ -182,6 +224,158 @@ describe('renderTable', () => {
     ];
     expect(() => renderTable(packages)).not.toThrow();
   });
+
+  test('explains versions skipped for missing extensions', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    renderTable([
+      {
+        name: 'vendor/package',
+        currentVersion: '^2.0',
+        latestVersion: '2.0.5',
+        diffType: 'patch',
+        releaseTime: new Date().toISOString(),
+        age: '1 d',
+        ageMonths: 0,
+        skippedVersion: '2.1.0',
+        skipReason: 'ext-intl',
+      },
+    ]);
+
+    const output = logs.join('\n');
+    expect(output).toContain('2.1.0 skipped (ext-intl)');
+    expect(output).toContain('missing extensions');
+    expect(output).not.toContain('PHP constraints');
+
+    spy.mockRestore();
+  });
+
+  test('shows ignored versions as skipped without the extension report', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    renderTable([
+      {
+        name: 'vendor/package',
+        currentVersion: '^5.4',
+        latestVersion: '5.4.2',
+        diffType: 'patch',
+        releaseTime: new Date().toISOString(),
+        age: '1 mo',
+        ageMonths: 1,
+        skippedVersion: '5.4.3',
+        skipReason: 'ignored',
+      },
+    ]);
+
+    const output = logs.join('\n');
+    expect(output).toContain('5.4.3 skipped (ignored)');
+    expect(output).not.toContain('missing extensions');
+
+    spy.mockRestore();
+  });
+
+  test('marks conflicting updates and lists the reasons', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    renderTable([
+      {
+        name: 'laravel/framework',
+        currentVersion: '^10.0',
+        latestVersion: '11.0.0',
+        diffType: 'major',
+        releaseTime: new Date().toISOString(),
+        age: '1 d',
+        ageMonths: 0,
+        conflicts: ['requires symfony/console ^7.0 but composer.json requires ^6.4'],
+      },
+    ]);
+
+    const output = logs.join('\n');
+    expect(output).toMatch(/laravel\/framework.*conflict/);
+    expect(output).toContain('Conflicting updates');
+    expect(output).toContain('laravel/framework 11.0.0 requires symfony/console ^7.0 but composer.json requires ^6.4');
+
+    spy.mockRestore();
+  });
+
+  test('renders installed versions and lock status', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    const base = {
+      diffType: 'minor' as const,
+      releaseTime: new Date().toISOString(),
+      age: '2 w',
+      ageMonths: 0,
+    };
+    renderTable([
+      {
+        ...base,
+        name: 'guzzlehttp/guzzle',
+        currentVersion: '^7.5',
+        latestVersion: '7.9.2',
+        installedVersion: '7.9.2',
+        lockStatus: 'lock-current',
+      },
+      {
+        ...base,
+        name: 'vendor/behind',
+        currentVersion: '^1.0',
+        latestVersion: '1.4.0',
+        installedVersion: '1.1.0',
+        lockStatus: 'lock-behind',
+      },
+      { ...base, name: 'vendor/unlocked', currentVersion: '^2.0', latestVersion: '2.1.0' },
+    ]);
+
+    const output = logs.join('\n');
+    expect(output).toMatch(/guzzlehttp\/guzzle.*\^7\.5.*7\.9\.2.*→.*7\.9\.2.*lock current/);
+    expect(output).toMatch(/vendor\/behind.*1\.1\.0.*→.*1\.4\.0.*composer update/);
+    expect(output).toMatch(/vendor\/unlocked.*\^2\.0.*-.*→/);
+
+    spy.mockRestore();
+  });
+
+  test('renders the PHP matrix and flags dropped versions', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    renderTable([
+      {
+        name: 'vendor/package',
+        currentVersion: '^2.0',
+        latestVersion: '2.5.0',
+        diffType: 'minor',
+        releaseTime: new Date().toISOString(),
+        age: '1 w',
+        ageMonths: 0,
+        phpRequirement: '>=8.1 <8.4',
+        phpMatrix: { '8.1': true, '8.2': true, '8.3': true, '8.4': false },
+        phpDropped: ['8.4'],
+      },
+    ]);
+
+    const output = logs.join('\n');
+    expect(output).toContain('PHP matrix: 8.1 8.2 8.3 8.4');
+    expect(output).toMatch(/vendor\/package.*✓✓✓✗.*drops php 8\.4/);
+    expect(output).toContain('Updates dropping PHP versions allowed by composer.json');
+    expect(output).toContain('vendor/package 2.5.0 requires php >=8.1 <8.4 (drops 8.4)');
+
+    spy.mockRestore();
+  });
 });
 
 import pkg from '../package.json';
@@ -228,3 +422,232 @@ describe('renderDeprecated', () => {
     spy.mockRestore();
   });
 });
+
+describe('renderHeld', () => {
+  test('renders held versions with their age', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    const packages: HeldPackage[] = [
+      {
+        name: 'vendor/package',
+        currentVersion: '^3.1',
+        heldVersion: '3.2.0',
+        heldAge: '1 d',
+        diffType: 'minor',
+      },
+    ];
+
+    renderHeld(packages);
+
+    expect(logs.join('\n')).toMatch(/vendor\/package.*\^3\.1.*3\.2\.0 held \(1 d old\)/);
+
+    spy.mockRestore();
+  });
+
+  test('does nothing when list is empty', () => {
+    const spy = spyOn(console, 'log');
+    renderHeld([]);
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe('renderDevBranches', () => {
+  test('renders branch head and released replacement', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    const packages: DevBranchPackage[] = [
+      {
+        name: 'vendor/package',
+        currentVersion: 'dev-main',
+        branch: 'dev-main',
+        time: new Date().toISOString(),
+        reference: 'a1b2c3d4e5f6',
+        alias: '3.1.x-dev',
+        stableVersion: '3.1.0',
+        suggestedConstraint: '^3.1',
+      },
+      { name: 'vendor/gone', currentVersion: 'dev-feature', branch: 'dev-feature' },
+    ];
+
+    renderDevBranches(packages);
+
+    const output = logs.join('\n');
+    expect(output).toContain('a1b2c3d');
+    expect(output).not.toContain('a1b2c3d4');
+    expect(output).toContain('^3.1 now released');
+    expect(output).toContain('branch not found');
+
+    spy.mockRestore();
+  });
+
+  test('does nothing when list is empty', () => {
+    const spy = spyOn(console, 'log');
+    renderDevBranches([]);
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe('renderFailures', () => {
+  test('lists packages with the reason they could not be checked', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    const packages: FailedPackage[] = [
+      {
+        name: 'vendor/private',
+        currentVersion: '^1.0',
+        error: { kind: 'http', message: 'HTTP 401 from satis.example.com', status: 401 },
+      },
+      {
+        name: 'vendor/offline',
+        currentVersion: '^2.0',
+        error: { kind: 'offline', message: 'unknown (offline)' },
+      },
+    ];
+
+    renderFailures(packages);
+
+    const output = logs.join('\n');
+    expect(output).toContain('Could not check');
+    expect(output).toContain('HTTP 401 from satis.example.com');
+    expect(output).toContain('unknown (offline)');
+
+    spy.mockRestore();
+  });
+
+  test('does nothing when list is empty', () => {
+    const spy = spyOn(console, 'log');
+    renderFailures([]);
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe('createProgressRenderer', () => {
+  test('redraws a status line and clears it when all lookups settled', () => {
+    const writes: string[] = [];
+    const onProgress = createProgressRenderer({
+      isTTY: true,
+      write: (chunk: string) => {
+        writes.push(chunk);
+        return true;
+      },
+    } as Pick<NodeJS.WriteStream, 'isTTY' | 'write'>);
+
+    onProgress({ type: 'started', name: 'vendor/a', completed: 0, total: 2 });
+    onProgress({ type: 'failed', name: 'vendor/a', completed: 1, total: 2, error: { kind: 'network', message: 'x' } });
+    onProgress({ type: 'finished', name: 'vendor/b', completed: 2, total: 2 });
+
+    expect(writes[0]).toContain('Checked 0/2');
+    expect(writes[0]).toContain('vendor/a');
+    expect(writes[1]).toContain('1 failed');
+    expect(writes.at(-1)).toBe('\r\x1b[K');
+  });
+
+  test('writes nothing when the stream is not a terminal', () => {
+    const writes: string[] = [];
+    const onProgress = createProgressRenderer({
+      isTTY: false,
+      write: (chunk: string) => {
+        writes.push(chunk);
+        return true;
+      },
+    } as Pick<NodeJS.WriteStream, 'isTTY' | 'write'>);
+
+    onProgress({ type: 'finished', name: 'vendor/a', completed: 1, total: 1 });
+    expect(writes).toEqual([]);
+  });
+});
+
+describe('renderTransitive', () => {
+  test('renders indirect updates with the chain that pulls them in', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    const packages: TransitivePackage[] = [
+      {
+        name: 'psr/http-message',
+        currentVersion: '1.1',
+        latestVersion: '2.0',
+        diffType: 'major',
+        releaseTime: new Date().toISOString(),
+        age: '1 y',
+        ageMonths: 12,
+        via: ['guzzlehttp/guzzle', 'guzzlehttp/psr7'],
+      },
+    ];
+
+    renderTransitive(packages);
+
+    const output = logs.join('\n');
+    expect(output).toContain('Indirect dependencies');
+    expect(output).toContain('via guzzlehttp/guzzle → guzzlehttp/psr7');
+    expect(output).toContain('display-only');
+
+    spy.mockRestore();
+  });
+
+  test('does nothing when list is empty', () => {
+    const spy = spyOn(console, 'log');
+    renderTransitive([]);
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe('renderPhpBumps', () => {
+  test('shows what each PHP bump unlocks in total', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    renderPhpBumps(
+      [
+        { version: '8.2', packages: [{ name: 'vendor/b', version: '1.4.0', php: '^8.2' }] },
+        { version: '8.3', packages: [{ name: 'vendor/a', version: '2.0.0', php: '>=8.3' }] },
+      ],
+      '^8.1',
+      'require.php',
+    );
+
+    const output = logs.join('\n');
+    expect(output).toContain('Raising php to ^8.2 unlocks 1 update');
+    expect(output).toContain('Raising php to ^8.3 unlocks 2 updates');
+    expect(output).toContain('vendor/a 2.0.0 (php >=8.3)');
+    expect(output).toContain('Run "comze -w --bump-php" to raise require.php to ^8.3');
+
+    spy.mockRestore();
+  });
+
+  test('names config.platform.php and skips the write hint when it pins PHP', () => {
+    const logs: string[] = [];
+    const spy = spyOn(console, 'log').mockImplementation((message?: string) => {
+      if (typeof message === 'string') logs.push(message);
+    });
+
+    renderPhpBumps(
+      [{ version: '8.2', packages: [{ name: 'vendor/b', version: '1.4.0', php: '^8.2' }] }],
+      '8.1.27',
+      'config.platform.php',
+    );
+
+    const output = logs.join('\n');
+    expect(output).toContain('Raising config.platform.php to 8.2 unlocks 1 update');
+    expect(output).not.toContain('--bump-php');
+
+    spy.mockRestore();
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'bun:test';
-import { formatAge, getAgeMonths } from '../src/utils/time';
+import { formatAge, getAgeMonths, parseDuration } from '../src/utils/time';
 
 describe('formatAge', () => {
   test('returns "now" for very recent dates', () => {
@@ -73,3 +73,27 @@ describe('getAgeMonths', () => {
     expect(getAgeMonths(almost3Months)).toBe(2);
   });
 });
+
+describe('parseDuration', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  test('parses the units produced by formatAge', () => {
+    expect(parseDuration('30m')).toBe(30 * 60 * 1000);
+    expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000);
+    expect(parseDuration('3d')).toBe(3 * DAY);
+    expect(parseDuration('2w')).toBe(14 * DAY);
+    expect(parseDuration('1mo')).toBe(30 * DAY);
+    expect(parseDuration('1y')).toBe(365 * DAY);
+  });
+
+  test('accepts whitespace and uppercase units', () => {
+    expect(parseDuration(' 2 D ')).toBe(2 * DAY);
+  });
+
+  test('returns null for invalid input', () => {
+    expect(parseDuration('')).toBeNull();
+    expect(parseDuration('3')).toBeNull();
+    expect(parseDuration('3 days')).toBeNull();
+    expect(parseDuration('-1d')).toBeNull();
+  });
+});
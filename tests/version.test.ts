@@ -3,11 +3,19 @@ import {
   parseConstraint,
   normalizeVersion,
   getDiffType,
+  getMajorLine,
+  getPackageStability,
+  ConstraintRewriteError,
   formatNewVersion,
+  updateConstraint,
+  validateConstraintUpdate,
   isDevVersion,
   normalizeVersionString,
   getVersionStability,
   meetsStabilityRequirement,
+  getBranchVersion,
+  getBranchLine,
+  isOnBranchLine,
 } from '../src/utils/version';
 
 describe('parseConstraint', () => {
@@ -296,6 +304,31 @@ describe('getDiffType', () => {
   test('handles tilde constraint', () => {
     expect(getDiffType('~1.2', '1.3.0')).toBe('minor');
   });
+
+  test('returns major for a new 0.x minor outside the caret range', () => {
+    expect(getDiffType('^0.4', '0.5.0')).toBe('major');
+    expect(getDiffType('0.4.2', '0.5.0')).toBe('major');
+    expect(getDiffType('^0.4', '0.4.3')).toBe('patch');
+  });
+
+  test('returns major for a new 0.0.x patch outside the caret range', () => {
+    expect(getDiffType('^0.0.3', '0.0.4')).toBe('major');
+    expect(getDiffType('^0.0', '0.0.5')).toBe('patch');
+  });
+
+  test('keeps 0.x changes allowed by the current constraint as minor', () => {
+    expect(getDiffType('~0.4', '0.5.0')).toBe('minor');
+    expect(getDiffType('>=0.4', '0.6.1')).toBe('minor');
+  });
+});
+
+describe('getMajorLine', () => {
+  test('returns the release line under caret semantics', () => {
+    expect(getMajorLine('2.3.1')).toBe('2');
+    expect(getMajorLine('^0.4')).toBe('0.4');
+    expect(getMajorLine('0.0.3')).toBe('0.0.3');
+    expect(getMajorLine('dev-main')).toBeNull();
+  });
 });
 
 describe('formatNewVersion', () => {
@@ -332,7 +365,36 @@ describe('formatNewVersion', () => {
   });
 
   test('updates hyphenated range', () => {
-    expect(formatNewVersion('1.0 - 2.0', '2.5.0')).toBe('1.0 - 2.5.0');
+    expect(formatNewVersion('1.0 - 3.0', '2.5.0')).toBe('2.5.0 - 3.0');
+    expect(formatNewVersion('1.0 - 2.0', '2.5.0')).toBe('2.5.0 - 2');
+  });
+
+  test('moves the upper bound of a range to the next major boundary', () => {
+    expect(formatNewVersion('>=1.4 <2.0', '2.1.0')).toBe('>=2.1.0 <3.0');
+    expect(formatNewVersion('>= 1.4 < 2', '2.1.0')).toBe('>= 2.1.0 < 3');
+    expect(formatNewVersion('>1.4 <=2.0', '2.3.0')).toBe('>=2.3.0 <3.0');
+    expect(formatNewVersion('<2.0', '2.5.0')).toBe('<3.0');
+  });
+
+  test('rewrites comma-separated ranges', () => {
+    expect(formatNewVersion('>=1.4, <2.0', '2.1.0')).toBe('>=2.1.0, <3.0');
+    expect(formatNewVersion('>=1.4, <2.0, !=1.5.0', '1.6.0')).toBe('>=1.6.0, <2.0, !=1.5.0');
+  });
+
+  test('moves the upper bound of 0.x ranges to the next minor', () => {
+    expect(formatNewVersion('>=0.4 <0.5', '0.6.1')).toBe('>=0.6.1 <0.7');
+  });
+
+  test('refuses range rewrites it cannot make safely', () => {
+    expect(() => formatNewVersion('>=1.4 <2.0 !=2.1.0', '2.1.0')).toThrow('it excludes 2.1.0');
+    expect(() => formatNewVersion('>=1.0 >=1.2 <2.0', '2.0.0')).toThrow(ConstraintRewriteError);
+    expect(() => formatNewVersion('=1.0', '2.0.0')).toThrow('it pins an exact version');
+  });
+
+  test('preserves stability flags', () => {
+    expect(formatNewVersion('^2.0@beta', '2.1.0-beta2')).toBe('^2.1.0-beta2@beta');
+    expect(formatNewVersion('~2.0@dev', '2.1.0')).toBe('~2.1.0@dev');
+    expect(formatNewVersion('>=1.4 <2.0@beta', '2.1.0')).toBe('>=2.1.0 <3.0@beta');
   });
 
   test('strips v prefix from new version', () => {
@@ -344,6 +406,110 @@ describe('formatNewVersion', () => {
   });
 });
 
+describe('getPackageStability', () => {
+  test('uses an inline stability flag instead of the minimum stability', () => {
+    expect(getPackageStability('^2.0@beta', 'stable')).toBe('beta');
+    expect(getPackageStability('^2.0@stable', 'dev')).toBe('stable');
+    expect(getPackageStability('>=1.0 <2.0@RC', 'stable')).toBe('RC');
+  });
+
+  test('uses the least stable flag of several alternatives', () => {
+    expect(getPackageStability('^1.0@beta || ^2.0@alpha', 'stable')).toBe('alpha');
+  });
+
+  test('lowers the stability for unstable versions', () => {
+    expect(getPackageStability('2.0.0-beta1', 'stable')).toBe('beta');
+    expect(getPackageStability('^2.0-RC1', 'stable')).toBe('RC');
+    expect(getPackageStability('2.0.0-beta1', 'dev')).toBe('dev');
+  });
+
+  test('keeps the minimum stability otherwise', () => {
+    expect(getPackageStability('^2.0', 'beta')).toBe('beta');
+    expect(getPackageStability('>=2.0-beta <3.0', 'stable')).toBe('stable');
+  });
+});
+
+describe('updateConstraint', () => {
+  test('replaces the constraint by default', () => {
+    expect(updateConstraint('^1.0', '2.1.0')).toBe('^2.1.0');
+    expect(updateConstraint('~1.2', '1.3.0', 'replace')).toBe('~1.3.0');
+  });
+
+  test('replaces multi-part constraints in the style of the matching or last part', () => {
+    expect(updateConstraint('^1.0 || ^2.0', '3.1.0')).toBe('^3.1.0');
+    expect(updateConstraint('^1.0 || ~2.0', '2.4.0')).toBe('~2.4.0');
+    expect(updateConstraint('>=1.0 <2.0 || ^2.0', '3.0.0')).toBe('^3.0.0');
+  });
+
+  test('keeps the constraint with the keep strategy', () => {
+    expect(updateConstraint('^1.0', '2.1.0', 'keep')).toBe('^1.0');
+  });
+
+  test('widens the constraint with the new release line', () => {
+    expect(updateConstraint('^1.0', '2.1.0', 'widen')).toBe('^1.0 || ^2.0');
+    expect(updateConstraint('^1.0 || ^2.0', '3.1.0', 'widen')).toBe('^1.0 || ^2.0 || ^3.0');
+    expect(updateConstraint('^1.0|^2.0', '3.1.0', 'widen')).toBe('^1.0|^2.0|^3.0');
+    expect(updateConstraint('~0.4', '1.2.0', 'widen')).toBe('~0.4 || ~1.0');
+    expect(updateConstraint('^0.4', '0.5.1', 'widen')).toBe('^0.4 || ^0.5');
+    expect(updateConstraint('>=1.0 <2.0', '2.3.0', 'widen')).toBe('>=1.0 <2.0 || ^2.0');
+    expect(updateConstraint('1.2.*', '2.3.1', 'widen')).toBe('1.2.* || 2.3.*');
+  });
+
+  test('does not widen a constraint that already allows the new version', () => {
+    expect(updateConstraint('^1.0 || ^2.0', '2.5.0', 'widen')).toBe('^1.0 || ^2.0');
+  });
+
+  test('bumps the floor of the part allowing the new version', () => {
+    expect(updateConstraint('^1.0', '1.5.0', 'bump')).toBe('^1.5.0');
+    expect(updateConstraint('^1.0 || ^2.0', '2.3.0', 'bump')).toBe('^1.0 || ^2.3.0');
+    expect(updateConstraint('~1.2', '1.9.3', 'bump')).toBe('~1.9');
+    expect(updateConstraint('~1.2@beta', '1.9.0-beta1', 'bump')).toBe('~1.9@beta');
+    expect(updateConstraint('>=1.0 <2.0', '1.5.0', 'bump')).toBe('>=1.5.0 <2.0');
+    expect(updateConstraint('1.0 - 2.0', '1.5.0', 'bump')).toBe('1.5.0 - 2.0');
+  });
+
+  test('does not bump outside the current range', () => {
+    expect(updateConstraint('^1.0', '2.1.0', 'bump')).toBe('^1.0');
+    expect(updateConstraint('<2.0', '1.5.0', 'bump')).toBe('<2.0');
+  });
+
+  test('leaves dev constraints untouched', () => {
+    expect(updateConstraint('dev-main', '2.0.0', 'widen')).toBe('dev-main');
+    expect(updateConstraint('dev-main || ^1.0', '1.5.0', 'bump')).toBe('dev-main || ^1.5.0');
+  });
+});
+
+describe('validateConstraintUpdate', () => {
+  test('accepts rewrites allowing the new version', () => {
+    expect(validateConstraintUpdate('^1.0', '^2.1.0', '2.1.0')).toBeNull();
+    expect(validateConstraintUpdate('^1.0', '^1.0 || ^2.0', '2.1.0')).toBeNull();
+    expect(validateConstraintUpdate('>=1.4', '>=2.1.0', '2.1.0')).toBeNull();
+  });
+
+  test('does not check unchanged constraints', () => {
+    expect(validateConstraintUpdate('^1.0', '^1.0', '2.1.0')).toBeNull();
+  });
+
+  test('rejects invalid constraints', () => {
+    expect(validateConstraintUpdate('^1.0', '^foo', 'foo')).toBe('^foo is not a valid constraint');
+  });
+
+  test('rejects constraints not allowing the new version', () => {
+    expect(validateConstraintUpdate('>=1.4 <2.0', '>=2.1.0 <2.0', '2.1.0')).toBe(
+      '>=2.1.0 <2.0 does not allow 2.1.0',
+    );
+  });
+
+  test('rejects constraints newly allowing a later release line', () => {
+    expect(validateConstraintUpdate('^1.0', '>=1.5.0', '1.5.0')).toBe(
+      '>=1.5.0 would also allow 2.0 and later',
+    );
+    expect(validateConstraintUpdate('^0.4', '>=0.4 <1.0', '0.4.3')).toBe(
+      '>=0.4 <1.0 would also allow 0.5 and later',
+    );
+  });
+});
+
 describe('getDiffType edge cases', () => {
   test('returns null for invalid semver', () => {
     expect(getDiffType('invalid', 'also-invalid')).toBeNull();
@@ -429,3 +595,49 @@ describe('meetsStabilityRequirement', () => {
     expect(meetsStabilityRequirement('1.0.0', 'dev')).toBe(true);
   });
 });
+
+describe('getBranchVersion', () => {
+  test('returns named branches', () => {
+    expect(getBranchVersion('dev-main')).toBe('dev-main');
+  });
+
+  test('returns numeric branches', () => {
+    expect(getBranchVersion('2.x-dev')).toBe('2.x-dev');
+  });
+
+  test('strips inline aliases, commit references and flags', () => {
+    expect(getBranchVersion('dev-main as 1.0.x-dev')).toBe('dev-main');
+    expect(getBranchVersion('2.x-dev#a1b2c3d')).toBe('2.x-dev');
+    expect(getBranchVersion('dev-main@dev')).toBe('dev-main');
+  });
+
+  test('returns null for release constraints', () => {
+    expect(getBranchVersion('^2.0')).toBeNull();
+    expect(getBranchVersion('1.0.0-beta1')).toBeNull();
+  });
+});
+
+describe('getBranchLine', () => {
+  test('extracts line from numeric branches and aliases', () => {
+    expect(getBranchLine('2.x-dev')).toBe('2');
+    expect(getBranchLine('3.1.x-dev')).toBe('3.1');
+    expect(getBranchLine('1.0-dev')).toBe('1.0');
+  });
+
+  test('returns null for named branches', () => {
+    expect(getBranchLine('dev-main')).toBeNull();
+  });
+});
+
+describe('isOnBranchLine', () => {
+  test('matches releases on or after the line within the same major', () => {
+    expect(isOnBranchLine('3.1.0', '3.1')).toBe(true);
+    expect(isOnBranchLine('v3.2.4', '3.1')).toBe(true);
+  });
+
+  test('rejects earlier releases and other majors', () => {
+    expect(isOnBranchLine('3.0.9', '3.1')).toBe(false);
+    expect(isOnBranchLine('4.0.0', '3.1')).toBe(false);
+    expect(isOnBranchLine('dev-main', '3.1')).toBe(false);
+  });
+});
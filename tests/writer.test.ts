@@ -174,6 +174,98 @@ describe('writeComposerJson', () => {
     expect(newContent.extra.comze.exclude).toEqual(['vendor/ignored-package']);
   });
 
+  test('rewrites constraints with the package range strategy', async () => {
+    const content = {
+      require: {
+        'vendor/library': '^1.0',
+        'vendor/app': '^1.0',
+      },
+    };
+    await writeFile(TEST_COMPOSER, JSON.stringify(content, null, 4));
+
+    const base = {
+      currentVersion: '^1.0',
+      latestVersion: '2.1.0',
+      diffType: 'major' as const,
+      releaseTime: new Date().toISOString(),
+      age: '1 d',
+      ageMonths: 0,
+    };
+    const updates: PackageInfo[] = [
+      { ...base, name: 'vendor/library', rangeStrategy: 'widen' },
+      { ...base, name: 'vendor/app', rangeStrategy: 'keep' },
+    ];
+
+    await writeComposerJson(TEST_COMPOSER, updates, false);
+
+    const newContent = JSON.parse(await readFile(TEST_COMPOSER, 'utf-8'));
+    expect(newContent.require['vendor/library']).toBe('^1.0 || ^2.0');
+    expect(newContent.require['vendor/app']).toBe('^1.0');
+  });
+
+  test('keeps constraints that cannot be rewritten safely', async () => {
+    const content = {
+      require: {
+        'vendor/package': '>=1.4 <2.0 !=2.1.0',
+      },
+    };
+    await writeFile(TEST_COMPOSER, JSON.stringify(content, null, 4));
+
+    const updates: PackageInfo[] = [
+      {
+        name: 'vendor/package',
+        currentVersion: '>=1.4 <2.0 !=2.1.0',
+        latestVersion: '2.1.0',
+        diffType: 'major',
+        releaseTime: new Date().toISOString(),
+        age: '1 d',
+        ageMonths: 0,
+      },
+    ];
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await writeComposerJson(TEST_COMPOSER, updates, false);
+    const output = logSpy.mock.calls.flat().join('\n');
+    logSpy.mockRestore();
+
+    expect(result).toBe(true);
+    expect(output).toContain('vendor/package');
+    expect(output).toContain('it excludes 2.1.0');
+    const newContent = JSON.parse(await readFile(TEST_COMPOSER, 'utf-8'));
+    expect(newContent.require['vendor/package']).toBe('>=1.4 <2.0 !=2.1.0');
+  });
+
+  test('refuses to write constraints that fail validation', async () => {
+    const content = {
+      require: {
+        'vendor/package': '^1.0',
+        'vendor/other': '^1.0',
+      },
+    };
+    await writeFile(TEST_COMPOSER, JSON.stringify(content, null, 4));
+
+    const base = {
+      currentVersion: '^1.0',
+      diffType: 'minor' as const,
+      releaseTime: new Date().toISOString(),
+      age: '1 d',
+      ageMonths: 0,
+    };
+    const updates: PackageInfo[] = [
+      { ...base, name: 'vendor/package', latestVersion: 'latest' },
+      { ...base, name: 'vendor/other', latestVersion: '1.5.0' },
+    ];
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await writeComposerJson(TEST_COMPOSER, updates, false);
+    const output = logSpy.mock.calls.flat().join('\n');
+    logSpy.mockRestore();
+
+    expect(result).toBe(false);
+    expect(output).toContain('vendor/package ^1.0 → ^latest: ^latest is not a valid constraint');
+    expect(JSON.parse(await readFile(TEST_COMPOSER, 'utf-8'))).toEqual(content);
+  });
+
   test('dry run does not write file', async () => {
     const content = {
       require: {
@@ -232,6 +324,36 @@ describe('writeComposerJson', () => {
     expect(result).toBe(true);
     expect(files.some((file) => file.endsWith('.tmp'))).toBe(false);
   });
+
+  test('raises the php requirement without reordering require', async () => {
+    const content = {
+      require: {
+        php: '^8.1',
+        'vendor/package': '^1.0',
+      },
+    };
+    await writeFile(TEST_COMPOSER, JSON.stringify(content, null, 4));
+
+    await writeComposerJson(TEST_COMPOSER, [], false, { php: '^8.2' });
+
+    const raw = await readFile(TEST_COMPOSER, 'utf-8');
+    expect(JSON.parse(raw).require).toEqual({ php: '^8.2', 'vendor/package': '^1.0' });
+    expect(raw.indexOf('"php"')).toBeLessThan(raw.indexOf('"vendor/package"'));
+  });
+
+  test('refuses to write a php requirement that fails validation', async () => {
+    const content = { require: { php: '>=8.1 <8.4', 'vendor/package': '^1.0' } };
+    await writeFile(TEST_COMPOSER, JSON.stringify(content, null, 4));
+    const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await writeComposerJson(TEST_COMPOSER, [], false, { php: '>=8.2' });
+    const output = logSpy.mock.calls.flat().join('\n');
+    logSpy.mockRestore();
+
+    expect(result).toBe(false);
+    expect(output).toContain('php >=8.1 <8.4 → >=8.2: >=8.2 would also allow 9.0 and later');
+    expect(JSON.parse(await readFile(TEST_COMPOSER, 'utf-8'))).toEqual(content);
+  });
 });
 
 describe('runComposerUpdate', () => {